@@ -0,0 +1,86 @@
+import { auth, OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import { OAuthClientInformationFull, OAuthClientMetadata, OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
+
+export interface ClientAuthOptions {
+  /** A bearer token sent as is with every request, such as one of the server's static tokens. */
+  token?: string;
+  /** Space-separated scopes to ask the server's mock OAuth authorization server for; used when no `token` is given. */
+  scope?: string;
+}
+
+/**
+ * The OAuth client side of a test client. It keeps its registration, tokens and PKCE
+ * verifier in memory and plays the user's browser itself: the authorization URL is
+ * fetched without following the redirect, and the code is read from where it points.
+ * That only works against an authorization server that approves at once, like the
+ * one startServer runs (server/auth.ts).
+ *
+ * Once authorized, the SDK transports send its access token and, when the server
+ * answers 401, refresh it with the refresh token before sending again.
+ */
+export class TestOAuthClient implements OAuthClientProvider {
+  private information?: OAuthClientInformationFull;
+  private saved?: OAuthTokens;
+  private verifier?: string;
+  private code?: string;
+
+  constructor(private scope?: string) {}
+
+  get redirectUrl() {
+    return 'http://localhost/oauth/callback';
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'test-sse-client',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      ...(this.scope !== undefined && { scope: this.scope })
+    };
+  }
+
+  clientInformation() {
+    return this.information;
+  }
+
+  saveClientInformation(information: OAuthClientInformationFull) {
+    this.information = information;
+  }
+
+  tokens() {
+    return this.saved;
+  }
+
+  saveTokens(tokens: OAuthTokens) {
+    this.saved = tokens;
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL) {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    const location = response.headers.get('location');
+    const code = location ? new URL(location).searchParams.get('code') : null;
+    if (!code) {
+      throw new Error(`Authorization was not granted (HTTP ${response.status}): ${await response.text()}`);
+    }
+    this.code = code;
+  }
+
+  saveCodeVerifier(codeVerifier: string) {
+    this.verifier = codeVerifier;
+  }
+
+  codeVerifier() {
+    if (!this.verifier) {
+      throw new Error('No authorization in progress');
+    }
+    return this.verifier;
+  }
+
+  /** Registers with the server's authorization server and exchanges a code for tokens. */
+  async authorize(serverUrl: URL) {
+    if (await auth(this, { serverUrl }) === 'REDIRECT') {
+      await auth(this, { serverUrl, authorizationCode: this.code! });
+    }
+  }
+}
@@ -1,17 +1,57 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
-import { ListRootsRequestSchema, CreateMessageRequestSchema, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { WebSocketClientTransport } from '@modelcontextprotocol/sdk/client/websocket.js';
+import WebSocket from 'ws';
+import { randomUUID } from 'node:crypto';
+import {
+  ListRootsRequestSchema,
+  CreateMessageRequestSchema,
+  InitializeResult,
+  JSONRPCMessage,
+  Prompt,
+  RequestId,
+  Resource,
+  ResourceTemplate,
+  Root,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  Tool,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse
+} from '@modelcontextprotocol/sdk/types.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ServerEndpoint, TransportKind } from '../shared/endpoint';
+import { TraceSink, defaultTraceSink } from '../shared/trace';
+import { FaultInjectingTransport, FaultPlan } from '../shared/faults';
+import { ClientAuthOptions, TestOAuthClient } from './auth';
+import { ReconnectingTransport, ReconnectOptions, resumingEventStream } from './reconnect';
 
 class LoggingTransport implements Transport {
-  constructor(private inner: Transport) {}
+  constructor(
+    private inner: Transport,
+    private kind: TransportKind,
+    private sent: JSONRPCMessage[] = [],
+    private trace: TraceSink = defaultTraceSink,
+    private requestedVersion?: string
+  ) {}
   onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: unknown }) => void;
   onclose?: () => void;
   onerror?: (error: Error) => void;
+  /** The version the server answered initialize with. */
+  protocolVersion?: string;
+  private initializeId?: RequestId;
+  private connection = randomUUID();
   get sessionId() { return this.inner.sessionId; }
   async start() {
     this.inner.onmessage = (m, extra) => {
       console.log('Client Received:', m);
+      if (isJSONRPCResponse(m) && m.id === this.initializeId) {
+        this.protocolVersion = (m.result as InitializeResult).protocolVersion;
+      }
+      this.trace.record({ side: 'client', direction: 'in', sessionId: this.sessionId, connection: this.connection, transport: this.kind, message: m });
       this.onmessage?.(m, extra);
     };
     this.inner.onclose = () => this.onclose?.();
@@ -19,6 +59,22 @@ class LoggingTransport implements Transport {
     await this.inner.start();
   }
   async send(message: JSONRPCMessage, options?: TransportSendOptions) {
+    // Client.connect() always asks for the SDK's latest version, so initialize is rewritten on its way out.
+    // The SDK then rejects versions it does not know; a client pinned to one it knows also refuses newer
+    // ones, before it tells the server initialization is done.
+    if (isJSONRPCRequest(message) && message.method === 'initialize') {
+      this.initializeId = message.id;
+      if (this.requestedVersion !== undefined) {
+        message = { ...message, params: { ...message.params, protocolVersion: this.requestedVersion } };
+      }
+    } else if (isJSONRPCNotification(message) && message.method === 'notifications/initialized') {
+      const requested = this.requestedVersion;
+      if (requested !== undefined && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) && this.protocolVersion! > requested) {
+        throw new Error(`Server's protocol version is not supported: ${this.protocolVersion}`);
+      }
+    }
+    this.sent.push(message);
+    this.trace.record({ side: 'client', direction: 'out', sessionId: this.sessionId, connection: this.connection, transport: this.kind, message });
     await this.inner.send(message, options);
   }
   async close() {
@@ -27,27 +83,227 @@ class LoggingTransport implements Transport {
   }
 }
 
-export async function createClient(url: string) {
-  const client = new Client({ name: 'test-sse-client', version: '1.0.0' });
+/** Transports that can be addressed by a plain string; memory needs the endpoint from startServer. */
+export type ClientTransportKind = Exclude<TransportKind, 'memory'>;
 
-  client.registerCapabilities({
-    roots: { listChanged: true },
-    sampling: {}
+/** Optional client capabilities, each on unless set to false. */
+export interface ClientCapabilityProfile {
+  /** `roots`, answering roots/list. */
+  roots?: boolean;
+  /** `sampling`, answering sampling/createMessage. */
+  sampling?: boolean;
+}
+
+export interface CreateClientOptions {
+  /**
+   * Transport used to reach a string target: `sse` for `/sse`, `streamable-http` for `/mcp`,
+   * `websocket` for `ws://…/ws`, `stdio` to spawn it.
+   */
+  transport?: ClientTransportKind;
+  /** Where both directions of traffic are traced; defaults to the shared sink flushed per test. */
+  trace?: TraceSink;
+  /** Faults to inject between the client and the wire; the trace shows what actually arrived. */
+  faults?: FaultPlan;
+  /** Roots answered to `roots/list`; change them later with the returned `setRoots`. */
+  roots?: Root[];
+  /** Declare `roots.listChanged` (default true); without it `setRoots` cannot notify the server. */
+  rootsListChanged?: boolean;
+  /**
+   * Capabilities to leave out; all of them are declared by default. The server gets
+   * Method not found for requests the client no longer answers.
+   */
+  capabilities?: ClientCapabilityProfile;
+  /**
+   * Check requests against the server's capabilities before sending them, the SDK's
+   * `enforceStrictCapabilities`; otherwise the server answers Method not found.
+   */
+  strictCapabilities?: boolean;
+  /**
+   * Protocol version asked for at initialize instead of the SDK's latest. A version the
+   * SDK knows pins the client: the server may only answer with it or an older one.
+   */
+  protocolVersion?: string;
+  /**
+   * Authorize with the server: send a given bearer token, or get one from the server's
+   * mock OAuth authorization server and refresh it when it expires (see client/auth.ts).
+   * Only the SSE and Streamable HTTP transports can carry a token.
+   */
+  auth?: ClientAuthOptions;
+  /**
+   * Backoff for getting a dropped SSE or Streamable HTTP event stream back, resuming
+   * after the last event seen. Once it gives up the transport closes (see client/reconnect.ts).
+   */
+  reconnect?: ReconnectOptions;
+}
+
+/**
+ * Spawns a server entry point such as server/stdio.ts with ts-node. Relative
+ * paths resolve against the working directory.
+ */
+function createStdioTransport(entry: string) {
+  return new StdioClientTransport({
+    command: process.execPath,
+    args: ['-r', 'ts-node/register', entry],
+    env: {
+      ...getDefaultEnvironment(),
+      TS_NODE_TRANSPILE_ONLY: 'true',
+      TS_NODE_COMPILER_OPTIONS: JSON.stringify({ module: 'node16' })
+    }
   });
+}
+
+function toEndpoint(target: string, transport: ClientTransportKind = 'sse'): ServerEndpoint {
+  if (transport === 'stdio') {
+    return { transport, entry: target, received: [] };
+  }
+  return { transport, url: target };
+}
 
-  client.setRequestHandler(ListRootsRequestSchema, async () => ({
-    roots: [{ uri: 'file:///home/user/projects/myproject', name: 'My Project' }]
-  }));
+async function createInnerTransport(
+  endpoint: ServerEndpoint,
+  authProvider?: TestOAuthClient,
+  headers?: Record<string, string>,
+  reconnect?: ReconnectOptions
+): Promise<Transport> {
+  switch (endpoint.transport) {
+    case 'memory':
+      return endpoint.connect();
+    case 'stdio':
+      return createStdioTransport(endpoint.entry);
+    case 'streamable-http':
+      return new ReconnectingTransport(options => new StreamableHTTPClientTransport(new URL(endpoint.url), {
+        authProvider,
+        requestInit: { headers },
+        reconnectionOptions: {
+          initialReconnectionDelay: options.initialDelay,
+          maxReconnectionDelay: options.maxDelay,
+          reconnectionDelayGrowFactor: options.growFactor,
+          maxRetries: options.maxRetries
+        }
+      }), reconnect);
+    case 'websocket':
+      // The SDK transport expects the browser WebSocket global, which Node only ships from v22
+      if (!globalThis.WebSocket) {
+        (globalThis as any).WebSocket = WebSocket;
+      }
+      return new WebSocketClientTransport(new URL(endpoint.url));
+    case 'sse': {
+      // The event stream only sends the headers its own fetch adds, so the OAuth token is added here too
+      const streamHeaders = async () => {
+        const tokens = await authProvider?.tokens();
+        return { ...headers, ...(tokens && { Authorization: `Bearer ${tokens.access_token}` }) };
+      };
+      return new ReconnectingTransport((options, giveUp) => new SSEClientTransport(new URL(endpoint.url), {
+        authProvider,
+        requestInit: { headers },
+        eventSourceInit: { fetch: resumingEventStream(options, streamHeaders, giveUp) }
+      }), reconnect);
+    }
+  }
+}
 
-  client.setRequestHandler(CreateMessageRequestSchema, async () => ({
-    role: 'assistant',
-    content: { type: 'text', text: 'The capital of France is Paris.' },
-    model: 'claude-3-sonnet-20240307',
-    stopReason: 'endTurn'
-  }));
+/**
+ * Builds the logging transport createClient connects over, without starting it.
+ * Used directly by callers that speak raw JSON-RPC, such as the golden-file replay.
+ */
+export async function createTransport(target: string | ServerEndpoint, options: CreateClientOptions = {}) {
+  const endpoint = typeof target === 'string' ? toEndpoint(target, options.transport) : target;
+  let oauth: TestOAuthClient | undefined;
+  if (options.auth?.token === undefined && options.auth && 'url' in endpoint) {
+    oauth = new TestOAuthClient(options.auth.scope);
+    await oauth.authorize(new URL(endpoint.url));
+  }
+  const headers = options.auth?.token === undefined ? undefined : { Authorization: `Bearer ${options.auth.token}` };
+  let inner = await createInnerTransport(endpoint, oauth, headers, options.reconnect);
+  const faults = options.faults && new FaultInjectingTransport(inner, options.faults);
+  inner = faults ?? inner;
+  const sent: JSONRPCMessage[] = endpoint.transport === 'stdio' ? endpoint.received : [];
+  const transport = new LoggingTransport(inner, endpoint.transport, sent, options.trace, options.protocolVersion);
+  return { transport, sent, faults, oauth };
+}
 
-  const inner = new SSEClientTransport(new URL(url));
-  const transport = new LoggingTransport(inner);
+/**
+ * Connects a test client. `target` is either the endpoint returned by startServer or,
+ * together with `options.transport`, the server URL for the HTTP transports and the
+ * server entry point to spawn for stdio.
+ *
+ * `sent` collects every message the client writes; over stdio it is the only view
+ * of what the server process received, so it doubles as that endpoint's `received`.
+ * `protocolVersion` is the version client and server agreed on at initialize, and
+ * `oauth` holds the OAuth client's tokens when `options.auth` asked for them.
+ */
+export async function createClient(target: string | ServerEndpoint, options: CreateClientOptions = {}) {
+  const client = new Client(
+    { name: 'test-sse-client', version: '1.0.0' },
+    { enforceStrictCapabilities: options.strictCapabilities }
+  );
+
+  // The SDK refuses handlers for undeclared capabilities, so each one comes with its handler
+  const profile = { roots: true, sampling: true, ...options.capabilities };
+  const rootsListChanged = profile.roots && (options.rootsListChanged ?? true);
+
+  let roots = options.roots ?? [{ uri: 'file:///home/user/projects/myproject', name: 'My Project' }];
+  if (profile.roots) {
+    client.registerCapabilities({ roots: { listChanged: rootsListChanged } });
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots }));
+  }
+
+  if (profile.sampling) {
+    client.registerCapabilities({ sampling: {} });
+    client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+      role: 'assistant',
+      content: { type: 'text', text: 'The capital of France is Paris.' },
+      model: 'claude-3-sonnet-20240307',
+      stopReason: 'endTurn'
+    }));
+  }
+
+  const { transport, sent, faults, oauth } = await createTransport(target, options);
   await client.connect(transport);
-  return { client, transport };
+
+  // Replaces the roots and, if the client declared listChanged, tells the server with notifications/roots/list_changed
+  const setRoots = async (next: Root[]) => {
+    roots = next;
+    if (rootsListChanged) {
+      await client.sendRootsListChanged();
+    }
+  };
+  return { client, transport, sent, faults, oauth, setRoots, protocolVersion: transport.protocolVersion! };
+}
+
+/** What each list method returns, keyed by the result field that holds it. */
+export interface ListedItems {
+  tools: Tool[];
+  prompts: Prompt[];
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+}
+
+/**
+ * Fetches every page of a list method by following `nextCursor`, and returns the
+ * items of all pages in order. A cursor the server hands out twice is reported
+ * instead of looping forever.
+ */
+export async function listAll<K extends keyof ListedItems>(client: Client, field: K, options?: RequestOptions): Promise<ListedItems[K]> {
+  const list = (params?: { cursor: string }): Promise<any> => {
+    switch (field) {
+      case 'tools': return client.listTools(params, options);
+      case 'prompts': return client.listPrompts(params, options);
+      case 'resources': return client.listResources(params, options);
+      default: return client.listResourceTemplates(params, options);
+    }
+  };
+  const items: any[] = [];
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const page = await list(cursor === undefined ? undefined : { cursor });
+    items.push(...page[field]);
+    cursor = page.nextCursor;
+    if (cursor !== undefined && seen.has(cursor)) {
+      throw new Error(`Server repeated cursor ${cursor} while listing ${field}`);
+    }
+    if (cursor !== undefined) seen.add(cursor);
+  } while (cursor !== undefined);
+  return items as ListedItems[K];
 }
@@ -0,0 +1,174 @@
+import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+export interface ReconnectOptions {
+  /** Milliseconds before the first attempt after a drop; defaults to 1000. */
+  initialDelay?: number;
+  /** Longest wait between two attempts; defaults to 30000. */
+  maxDelay?: number;
+  /** What each wait is multiplied by after a failed attempt; defaults to 1.5. */
+  growFactor?: number;
+  /** Failed attempts in a row before giving up, 0 for never; defaults to 2. */
+  maxRetries?: number;
+}
+
+// The SDK's Streamable HTTP defaults, so both event stream transports back off alike
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = { initialDelay: 1000, maxDelay: 30000, growFactor: 1.5, maxRetries: 2 };
+
+/** Milliseconds to wait before the reconnection attempt after `failed` failed ones. */
+export const reconnectDelay = (options: Required<ReconnectOptions>, failed: number) =>
+  Math.min(options.initialDelay * options.growFactor ** failed, options.maxDelay);
+
+/**
+ * Keeps a client connected when its event stream drops. `create` builds the SDK
+ * transport with the resolved options and a `giveUp` callback:
+ *
+ * - Streamable HTTP reconnects by itself when given them as `reconnectionOptions`,
+ *   resuming from the last event ID it saw, and reports running out of attempts
+ *   through `onerror`. A stream that drops while the server has sent no event IDs,
+ *   which the SDK leaves alone, is given up on here.
+ * - SSE resumes inside the fetch of its EventSource (resumingEventStream), which
+ *   calls `giveUp`.
+ *
+ * Either way the transport is then closed, so requests still waiting for an answer
+ * fail with "Connection closed" instead of waiting for a stream that is not coming back.
+ */
+export class ReconnectingTransport implements Transport {
+  readonly options: Required<ReconnectOptions>;
+  private inner: Transport;
+  onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: unknown }) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  /** Whether the server has sent any event ID, without which Streamable HTTP cannot resume. */
+  private eventIds = false;
+  private closed = false;
+
+  constructor(create: (options: Required<ReconnectOptions>, giveUp: (error: Error) => void) => Transport, options: ReconnectOptions = {}) {
+    this.options = { ...DEFAULT_RECONNECT, ...options };
+    this.inner = create(this.options, error => this.giveUp(error));
+  }
+
+  get sessionId() { return this.inner.sessionId; }
+
+  async start() {
+    this.inner.onmessage = (m, extra) => this.onmessage?.(m, extra);
+    this.inner.onclose = () => {
+      this.closed = true;
+      this.onclose?.();
+    };
+    this.inner.onerror = (e) => {
+      if (e.message.startsWith('Maximum reconnection attempts')) {
+        this.giveUp(e);
+      } else if (e.message.startsWith('SSE stream disconnected') && !this.eventIds) {
+        this.onerror?.(e);
+        this.giveUp(new Error('Streamable HTTP stream disconnected with no event ID to resume from'));
+      } else {
+        this.onerror?.(e);
+      }
+    };
+    await this.inner.start();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions) {
+    await this.inner.send(message, {
+      ...options,
+      onresumptiontoken: token => {
+        this.eventIds = true;
+        options?.onresumptiontoken?.(token);
+      }
+    });
+  }
+
+  async close() {
+    this.closed = true;
+    await this.inner.close();
+  }
+
+  private giveUp(error: Error) {
+    if (this.closed) return;
+    this.onerror?.(error);
+    this.inner.close().catch(e => this.onerror?.(e));
+  }
+}
+
+/**
+ * A fetch for the SSE client's EventSource that hides dropped connections from it.
+ * The body is passed on one whole event at a time, and when it fails the stream is
+ * asked for again with `Last-Event-ID`, backing off between attempts, for a server
+ * started with `resumption` to send what was missed. `giveUp` is called when the
+ * attempts run out or the server answers that it cannot resume; the EventSource
+ * then sees the error. The stream ending normally is passed on as it is.
+ */
+export function resumingEventStream(
+  options: Required<ReconnectOptions>,
+  headers: () => Promise<Record<string, string>>,
+  giveUp: (error: Error) => void
+): typeof fetch {
+  return async (url, init) => {
+    const open = async (lastEventId?: string) => fetch(url, {
+      ...init,
+      headers: { ...init?.headers as Record<string, string>, ...await headers(), ...(lastEventId && { 'Last-Event-ID': lastEventId }) }
+    });
+    const first = await open();
+    if (!first.ok || !first.body) {
+      return first;
+    }
+
+    const encoder = new TextEncoder();
+    const aborted = () => init?.signal?.aborted ?? false;
+    const pump = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+      let response = first;
+      let lastEventId: string | undefined;
+      let failed = 0;
+      for (;;) {
+        let pending = '';
+        try {
+          for await (const chunk of response.body!.pipeThrough(new TextDecoderStream())) {
+            pending += chunk;
+            // Only whole events go on, so a replay never lands in the middle of a torn one
+            const end = pending.lastIndexOf('\n\n') + 2;
+            if (end < 2) continue;
+            const events = pending.slice(0, end);
+            pending = pending.slice(end);
+            lastEventId = [...events.matchAll(/^id: ?(.*)$/gm)].pop()?.[1] ?? lastEventId;
+            controller.enqueue(encoder.encode(events));
+            failed = 0;
+          }
+          controller.close();
+          return;
+        } catch (error) {
+          if (aborted()) return;
+          if (lastEventId === undefined) {
+            giveUp(new Error(`SSE stream disconnected with no event ID to resume from: ${error}`));
+            controller.error(error);
+            return;
+          }
+        }
+
+        let resumed: Response | undefined;
+        while (!resumed) {
+          if (options.maxRetries > 0 && failed >= options.maxRetries) {
+            const error = new Error(`Maximum reconnection attempts (${options.maxRetries}) exceeded.`);
+            giveUp(error);
+            controller.error(error);
+            return;
+          }
+          await new Promise(resolve => setTimeout(resolve, reconnectDelay(options, failed++)));
+          if (aborted()) return;
+          const answer = await open(lastEventId).catch(() => undefined);
+          if (answer && !answer.ok) {
+            const error = new Error(`Failed to resume SSE stream: HTTP ${answer.status}`);
+            giveUp(error);
+            controller.error(error);
+            return;
+          }
+          resumed = answer?.body ? answer : undefined;
+        }
+        response = resumed;
+      }
+    };
+    // Pumped in the background: the EventSource reads events while reconnections are still to come
+    const body = new ReadableStream<Uint8Array>({ start: controller => void pump(controller) });
+    return new Response(body, { status: first.status, statusText: first.statusText, headers: first.headers });
+  };
+}
@@ -0,0 +1,159 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+import {
+  JSONRPCMessage,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse
+} from '@modelcontextprotocol/sdk/types.js';
+import { ServerEndpoint } from '../shared/endpoint';
+import { TraceRecord } from '../shared/trace';
+import { createTransport } from './index';
+
+/**
+ * A recorded client session: every message the client sent (`out`) or received
+ * (`in`), in the order the client saw them.
+ */
+export interface GoldenFile {
+  description?: string;
+  messages: { direction: 'in' | 'out'; message: JSONRPCMessage }[];
+}
+
+export interface ReplayOptions {
+  /** How long to wait for the messages that preceded each send in the recording. */
+  timeoutMs?: number;
+}
+
+export interface ReplayResult {
+  expected: unknown[];
+  actual: unknown[];
+  differences: string[];
+}
+
+/** Builds a golden file from the client side of a trace. */
+export function recordGolden(records: TraceRecord[], description?: string): GoldenFile {
+  return {
+    description,
+    messages: records
+      .filter(r => r.side === 'client')
+      .map(r => ({ direction: r.direction, message: r.message }))
+  };
+}
+
+export function writeGolden(file: string, golden: GoldenFile) {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(golden, null, 2) + '\n');
+}
+
+export function readGolden(file: string): GoldenFile {
+  return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+/**
+ * Rewrites request IDs, progress tokens and cancelled request IDs to `#1`, `#2`, …
+ * in order of first appearance, so two sessions that only differ in numbering
+ * compare equal. Tokens share the ID numbering, so a token that stops matching
+ * its request still shows up.
+ */
+export function normalizeMessages(messages: JSONRPCMessage[]): unknown[] {
+  const ids = new Map<string | number, string>();
+  const alias = (value: string | number) => {
+    if (!ids.has(value)) ids.set(value, `#${ids.size + 1}`);
+    return ids.get(value)!;
+  };
+  return messages.map(message => {
+    const copy = JSON.parse(JSON.stringify(message));
+    if ('id' in copy && copy.id !== null) copy.id = alias(copy.id);
+    const params = copy.params;
+    if (params?.progressToken !== undefined) params.progressToken = alias(params.progressToken);
+    if (params?.requestId !== undefined) params.requestId = alias(params.requestId);
+    if (params?._meta?.progressToken !== undefined) params._meta.progressToken = alias(params._meta.progressToken);
+    return copy;
+  });
+}
+
+function diffMessages(expected: unknown[], actual: unknown[]): string[] {
+  const differences: string[] = [];
+  for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+    const want = JSON.stringify(expected[i]);
+    const got = JSON.stringify(actual[i]);
+    if (want !== got) {
+      differences.push(`#${i}: expected ${want ?? '<nothing>'}, got ${got ?? '<nothing>'}`);
+    }
+  }
+  return differences;
+}
+
+/**
+ * Replays the client side of a golden file against a live server and diffs what
+ * comes back. Each recorded request or notification is sent once as many messages
+ * have arrived as had arrived when it was recorded, which keeps cancellations and
+ * other timing-dependent sends in place. Requests from the server (sampling, roots)
+ * are answered with the recorded response to the matching request.
+ */
+export async function replayGolden(golden: GoldenFile, target: ServerEndpoint, options: ReplayOptions = {}): Promise<ReplayResult> {
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const recordedIn = golden.messages.filter(m => m.direction === 'in').map(m => m.message);
+
+  // Recorded answers to server requests, queued per method
+  const answers = new Map<string, JSONRPCMessage[]>();
+  for (const request of recordedIn.filter(isJSONRPCRequest)) {
+    const answer = golden.messages.find(m => m.direction === 'out'
+      && (isJSONRPCResponse(m.message) || isJSONRPCError(m.message))
+      && m.message.id === request.id);
+    if (answer) {
+      answers.set(request.method, [...(answers.get(request.method) ?? []), answer.message]);
+    }
+  }
+
+  const { transport } = await createTransport(target);
+  const received: JSONRPCMessage[] = [];
+  let arrived: () => void = () => {};
+  transport.onmessage = (message) => {
+    received.push(message);
+    if (isJSONRPCRequest(message)) {
+      const answer = answers.get(message.method)?.shift();
+      if (answer) {
+        transport.send({ ...answer, id: message.id } as JSONRPCMessage).catch(() => {});
+      }
+    }
+    arrived();
+  };
+  const waitForCount = async (count: number) => {
+    const deadline = Date.now() + timeoutMs;
+    while (received.length < count && Date.now() < deadline) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, Math.max(0, deadline - Date.now()));
+        arrived = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  };
+
+  await transport.start();
+  try {
+    let seen = 0;
+    for (const { direction, message } of golden.messages) {
+      if (direction === 'in') {
+        seen++;
+        continue;
+      }
+      if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+        continue;
+      }
+      await waitForCount(seen);
+      await transport.send(message);
+    }
+    await waitForCount(recordedIn.length);
+    // Give anything the recording did not have a chance to show up
+    await new Promise(r => setTimeout(r, 50));
+  } finally {
+    await transport.close();
+  }
+
+  const expected = normalizeMessages(recordedIn);
+  const actual = normalizeMessages(received);
+  return { expected, actual, differences: diffMessages(expected, actual) };
+}
@@ -2,6 +2,8 @@ module.exports = {
   preset: 'ts-jest/presets/default-esm',
   testEnvironment: 'node',
   extensionsToTreatAsEsm: ['.ts'],
+  setupFilesAfterEnv: ['<rootDir>/tests/traceSetup.ts'],
+  reporters: ['default', ['<rootDir>/reporters/feature-matrix.js', { outputDir: 'reports' }]],
   globals: {
     'ts-jest': {
       useESM: true,
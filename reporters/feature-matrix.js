@@ -0,0 +1,4 @@
+// Jest requires reporters without transforming them, so compile the TypeScript source on load
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'node16' } });
+
+module.exports = require('./featureMatrix.ts').FeatureMatrixReporter;
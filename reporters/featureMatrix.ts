@@ -0,0 +1,348 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import type { AggregatedResult, Reporter, TestContext } from '@jest/reporters';
+import { TRANSPORT_KINDS, TransportKind, transportFromEnv } from '../shared/endpoint';
+import { TraceRecord, traceFile } from '../shared/trace';
+
+/**
+ * MCP feature ID for every test title. Tests missing here are reported as
+ * `unmapped` so the table shows what still needs an ID.
+ */
+export const FEATURE_IDS: Record<string, string> = {
+  'Tool Listing': 'tools.list',
+  'Tool List Changed Notifications': 'tools.list_changed',
+  'Tool Invocation With Arguments': 'tools.call',
+  'Tool Invocation Without Arguments': 'tools.call.no_arguments',
+  'Tool Call with Progress': 'tools.call.progress',
+  'Tool Call Cancellation': 'tools.call.cancellation',
+  'Prompt Listing': 'prompts.list',
+  'Prompt Retrieval': 'prompts.get',
+  'Prompt Retrieval with Progress': 'prompts.get.progress',
+  'Prompt Retrieval Cancellation': 'prompts.get.cancellation',
+  'Prompt List Changed Notifications': 'prompts.list_changed',
+  'Resource Listing': 'resources.list',
+  'Resource List Changed Notifications': 'resources.list_changed',
+  'Resource Reading': 'resources.read',
+  'Resource Subscription': 'resources.subscribe',
+  'Resource Updated': 'resources.updated',
+  'Resource Read with Progress': 'resources.read.progress',
+  'Resource Read Cancellation': 'resources.read.cancellation',
+  'Templates Listing': 'resources.templates.list',
+  'Template List Changed Notifications': 'resources.templates.list_changed',
+  'Template Reading': 'resources.templates.read',
+  'Template Read with Progress': 'resources.templates.read.progress',
+  'Template Read Cancellation': 'resources.templates.read.cancellation',
+  'Root Listing': 'roots.list',
+  'Root List Changed Notifications': 'roots.list_changed',
+  'Roots Re-fetched on List Changed': 'roots.list_changed.refetch',
+  'Roots Fetch Failure Logged': 'roots.list_changed.fetch_error',
+  'Successful Sampling Flow': 'sampling.create_message',
+  'Sampling Error Handling': 'sampling.error',
+  'Sampling with Progress': 'sampling.progress',
+  'Sampling Cancellation': 'sampling.cancellation',
+  'Nested Sampling from Tool': 'sampling.nested.tool_call',
+  'Nested Sampling with Progress': 'sampling.nested.progress',
+  'Nested Sampling Rejected': 'sampling.nested.rejected',
+  'Nested Sampling Cancelled with Tool Call': 'sampling.nested.cancellation',
+  'Nested Sampling Routed to Calling Session': 'sampling.nested.session_routing',
+  'Completion Request': 'completion.complete',
+  'Logging Level and Messages': 'logging.set_level',
+  'Paginated Resource Listing': 'pagination.resources.list',
+  'Paginated Tool Listing': 'pagination.tools.list',
+  'Paginated Prompt Listing': 'pagination.prompts.list',
+  'Paginated Resource and Template Listing': 'pagination.resources.templates.list',
+  'Invalid Pagination Cursor': 'pagination.cursor.invalid',
+  'Expired Pagination Cursor': 'pagination.cursor.expired',
+  'Resource Template Completion': 'completion.resource_template',
+  'Context-Dependent Completion': 'completion.context_arguments',
+  'Completion Truncated at 100': 'completion.truncation',
+  'Initialization over stdio': 'transport.stdio.initialize',
+  'Tool Invocation over stdio': 'transport.stdio.tools.call',
+  'Tool Call with Progress over stdio': 'transport.stdio.progress',
+  'Prompt and Resource Fixtures over stdio': 'transport.stdio.fixtures',
+  'Session ID Header': 'transport.streamable_http.session',
+  'Tool Call with Progress over Streamable HTTP': 'transport.streamable_http.progress',
+  'Server Notifications on Standalone Stream': 'transport.streamable_http.standalone_stream',
+  'Session Termination': 'transport.streamable_http.termination',
+  'Tool Call with Progress over WebSocket': 'transport.websocket.progress',
+  'Tool Call Cancellation over WebSocket': 'transport.websocket.cancellation',
+  'Sampling over WebSocket': 'transport.websocket.sampling',
+  'Resource Subscription over WebSocket': 'transport.websocket.subscriptions',
+  'Authorization over WebSocket': 'authorization.bearer.websocket',
+  'Session Removed on Close': 'transport.websocket.close',
+  'Trace Records Both Directions': 'harness.trace.directions',
+  'Error Responses Classified': 'harness.trace.errors',
+  'Trace Written as JSONL': 'harness.trace.jsonl',
+  'Golden Session Replay': 'harness.replay.session',
+  'Replay Detects Behaviour Changes': 'harness.replay.diff',
+  'Committed Golden File': 'harness.replay.golden_file',
+  'Live Session Conforms': 'harness.conformance.live_session',
+  'Response After Cancel Flagged': 'harness.conformance.response_after_cancel',
+  'Progress Violations Flagged': 'harness.conformance.progress',
+  'Request Before Initialize Flagged': 'harness.conformance.before_initialize',
+  'Reused Request ID Flagged': 'harness.conformance.request_id',
+  'Unnegotiated Notifications Flagged': 'harness.conformance.capabilities',
+  'Connections Without Session IDs Kept Apart': 'harness.conformance.connections',
+  'Allowed Rules Skipped': 'harness.conformance.allow',
+  'Lost Progress Notification': 'resilience.progress_lost',
+  'Duplicated Tool Call Response': 'resilience.duplicate_response',
+  'Duplicated Request Reaching the Server': 'resilience.duplicate_request',
+  'Reordered Progress Notifications': 'resilience.reorder',
+  'Corrupted Response': 'resilience.corrupt',
+  'Probabilistic Delays': 'resilience.delay',
+  'SSE Stream Dropped During Tool Call': 'resilience.stream_dropped',
+  'Tool Call Resumed After Dropped Stream': 'resilience.resumption.replay',
+  'Reconnection Gives Up': 'resilience.resumption.give_up',
+  'Stream Without Event IDs Given Up': 'resilience.resumption.no_event_id',
+  'SSE Session Outlives Its Stream': 'resilience.resumption.window',
+  'Separate Server per Session': 'sessions.servers',
+  'Subscriptions Isolated Between Sessions': 'sessions.subscriptions',
+  'Log Level Isolated Between Sessions': 'sessions.logging',
+  'Store Changes Reach Other Sessions': 'sessions.store',
+  'No State Carried to the Next Session': 'sessions.reuse',
+  'Stored Resource Creation': 'resources.store.create',
+  'Stored Resource Update Notifies Subscribers': 'resources.store.update',
+  'Stored Resource Version Conflict': 'resources.store.version_conflict',
+  'Stored Resource Deletion': 'resources.store.delete',
+  'Root Files Listed': 'roots.files.list',
+  'Root File Reading': 'roots.files.read',
+  'Paths Outside Roots Refused': 'roots.files.outside_roots',
+  'Roots Change Refreshes Files': 'roots.files.list_changed',
+  'Unchanged Roots Keep Resource List': 'roots.files.unchanged',
+  'Roots Cached per Session': 'roots.files.session_cache',
+  'Roots Without listChanged': 'roots.files.no_list_changed',
+  'Roots Not Asked of Clients Without Them': 'roots.files.no_capability',
+  'Image Blob Resource': 'resources.blob.image',
+  'Binary Blob Round Trip': 'resources.blob.binary',
+  'Megabyte Blob Resource': 'resources.blob.megabyte',
+  'Multi-Megabyte Blob Resource': 'resources.blob.multi_megabyte',
+  'Multi-Megabyte Tool Argument': 'tools.call.large_arguments',
+  'Body Over Limit Refused': 'transport.http.body_limit',
+  'Image Content Result': 'tools.content.image',
+  'Audio Content Result': 'tools.content.audio',
+  'Embedded Resource Result': 'tools.content.resource',
+  'Mixed Content Result': 'tools.content.mixed',
+  'Tool Result Flagged isError': 'tools.errors.is_error_result',
+  'Tool Handler Throws': 'tools.errors.handler_throws',
+  'Tool Argument Validation Errors': 'tools.errors.invalid_arguments',
+  'Unknown Tool': 'tools.errors.unknown_tool',
+  'Disabled and Removed Tools': 'tools.errors.disabled_removed',
+  'Fixtures Loaded from YAML Spec': 'harness.fixtures.yaml',
+  'Templated Fixture Responses': 'harness.fixtures.templating',
+  'Simulated Delay with Progress': 'harness.fixtures.progress',
+  'Injected Fixture Errors': 'harness.fixtures.errors',
+  'Fixture Specs Merged from JSON': 'harness.fixtures.merge',
+  'Invalid Fixture Spec Rejected': 'harness.fixtures.validation',
+  'Negotiated Protocol Version': 'lifecycle.version.negotiation',
+  'Unsupported Protocol Version Rejected': 'lifecycle.version.rejection',
+  'Features per Protocol Version': 'lifecycle.version.features',
+  'Capability Profiles Declared': 'lifecycle.capabilities.profiles',
+  'Unsupported Methods Return Method Not Found': 'lifecycle.capabilities.server_method_not_found',
+  'Client Capability Assertions': 'lifecycle.capabilities.client_assertions',
+  'Client Methods Return Method Not Found': 'lifecycle.capabilities.client_method_not_found',
+  'Server Capability Assertions': 'lifecycle.capabilities.server_assertions',
+  'Unauthorized Requests Rejected': 'authorization.bearer.unauthorized',
+  'Auth Info Visible to Tools': 'authorization.bearer.auth_info',
+  'Scope-Restricted Tools': 'authorization.scopes.tools',
+  'OAuth Metadata Discovery': 'authorization.oauth.metadata',
+  'Token Refreshed Mid-Session': 'authorization.oauth.refresh'
+};
+
+export interface TestRecord {
+  featureId: string;
+  test: string;
+  suite: string;
+  file: string;
+  status: string;
+  duration: number | null;
+  failureMessages: string[];
+  /** Versions the test's clients agreed on at initialize; empty when none connected during it. */
+  protocolVersions: string[];
+}
+
+/** Results of one Jest run over one transport, as written to results-<transport>.json. */
+export interface TransportResults {
+  transport: TransportKind;
+  sdkVersion: string;
+  /** Every version negotiated during the run, newest first. */
+  protocolVersions: string[];
+  finishedAt: string;
+  tests: TestRecord[];
+}
+
+export interface FeatureMatrix {
+  generatedAt: string;
+  sdkVersion: string;
+  /** The versions each transport's run negotiated. */
+  protocolVersions: Partial<Record<TransportKind, string[]>>;
+  transports: TransportKind[];
+  features: {
+    id: string;
+    test: string;
+    suite: string;
+    results: Record<string, { status: string; duration: number | null }>;
+  }[];
+}
+
+export function sdkVersion(): string {
+  // The package exports map hides package.json, so walk up from a resolvable module
+  const typesPath = require.resolve('@modelcontextprotocol/sdk/types.js');
+  const pkg = JSON.parse(readFileSync(path.resolve(path.dirname(typesPath), '../../package.json'), 'utf8'));
+  return pkg.version;
+}
+
+const newestFirst = (versions: Iterable<string>) => [...new Set(versions)].sort().reverse();
+
+/**
+ * The protocol versions a test's clients accepted at initialize, read back from the
+ * trace tests/traceSetup.ts wrote for it: the version in each initialize result on a
+ * connection that went on to send `notifications/initialized`. Clients connected in
+ * `beforeAll` show up in the first test of their suite.
+ */
+export function negotiatedVersions(testPath: string, testName: string): string[] {
+  let text: string;
+  try {
+    text = readFileSync(traceFile(testPath, testName), 'utf8');
+  } catch {
+    return [];
+  }
+  const records: TraceRecord[] = text.split('\n').filter(Boolean).map(line => JSON.parse(line))
+    .filter((r: TraceRecord) => r.side === 'client');
+  const accepted = new Set(records
+    .filter(r => r.direction === 'out' && (r.message as any).method === 'notifications/initialized')
+    .map(r => r.connection));
+  return newestFirst(records
+    .filter(r => r.direction === 'in' && r.type === 'response' && accepted.has(r.connection))
+    .map(r => (r.message as any).result)
+    .filter(result => result?.serverInfo && typeof result.protocolVersion === 'string')
+    .map(result => result.protocolVersion));
+}
+
+export function collectResults(results: AggregatedResult, transport: TransportKind, rootDir: string): TransportResults {
+  const tests: TestRecord[] = [];
+  for (const file of results.testResults) {
+    for (const assertion of file.testResults) {
+      // Tests that did not run leave no trace of this run behind
+      const ran = assertion.status === 'passed' || assertion.status === 'failed';
+      tests.push({
+        featureId: FEATURE_IDS[assertion.title] ?? 'unmapped',
+        test: assertion.title,
+        suite: assertion.ancestorTitles.join(' > '),
+        file: path.relative(rootDir, file.testFilePath),
+        status: assertion.status,
+        duration: assertion.duration ?? null,
+        failureMessages: assertion.failureMessages,
+        protocolVersions: ran ? negotiatedVersions(file.testFilePath, assertion.fullName) : []
+      });
+    }
+  }
+  return {
+    transport,
+    sdkVersion: sdkVersion(),
+    protocolVersions: newestFirst(tests.flatMap(t => t.protocolVersions)),
+    finishedAt: new Date().toISOString(),
+    tests
+  };
+}
+
+/**
+ * Folds a run into the earlier results for its transport, keyed by suite and test, so a
+ * run of a few suites or tests only replaces what it ran. Tests it skipped keep their
+ * earlier result and only count as skipped when there is none.
+ */
+export function mergeResults(previous: TransportResults | undefined, run: TransportResults): TransportResults {
+  const key = (t: TestRecord) => `${t.suite}\u0000${t.test}`;
+  const tests = new Map((previous?.tests ?? []).map(t => [key(t), t]));
+  for (const record of run.tests) {
+    const ran = record.status === 'passed' || record.status === 'failed';
+    if (ran || !tests.has(key(record))) {
+      tests.set(key(record), record);
+    }
+  }
+  const merged = [...tests.values()];
+  return { ...run, protocolVersions: newestFirst(merged.flatMap(t => t.protocolVersions)), tests: merged };
+}
+
+/** Merges per-transport results into one row per test, columns in TRANSPORT_KINDS order. */
+export function buildMatrix(runs: TransportResults[]): FeatureMatrix {
+  const ordered = [...runs].sort((a, b) =>
+    TRANSPORT_KINDS.indexOf(a.transport) - TRANSPORT_KINDS.indexOf(b.transport));
+  const features: FeatureMatrix['features'] = [];
+  for (const run of ordered) {
+    for (const record of run.tests) {
+      let row = features.find(f => f.test === record.test && f.suite === record.suite);
+      if (!row) {
+        row = { id: record.featureId, test: record.test, suite: record.suite, results: {} };
+        features.push(row);
+      }
+      row.results[run.transport] = { status: record.status, duration: record.duration };
+    }
+  }
+  features.sort((a, b) => a.id.localeCompare(b.id));
+  return {
+    generatedAt: new Date().toISOString(),
+    sdkVersion: ordered[0]?.sdkVersion ?? sdkVersion(),
+    protocolVersions: Object.fromEntries(ordered.map(r => [r.transport, r.protocolVersions ?? []])),
+    transports: ordered.map(r => r.transport),
+    features
+  };
+}
+
+const STATUS_LABELS: Record<string, string> = { passed: 'pass', failed: 'FAIL', pending: 'skip', skipped: 'skip', todo: 'todo' };
+
+export function formatMarkdown(matrix: FeatureMatrix): string {
+  const cell = (result?: { status: string; duration: number | null }) => {
+    if (!result) return '–';
+    const label = STATUS_LABELS[result.status] ?? result.status;
+    return result.duration === null ? label : `${label} (${result.duration} ms)`;
+  };
+  return [
+    '# MCP feature matrix',
+    '',
+    `- SDK: @modelcontextprotocol/sdk ${matrix.sdkVersion}`,
+    `- Protocol versions negotiated: ${matrix.transports.map(t => `${t} ${matrix.protocolVersions[t]?.join(', ') || '–'}`).join('; ')}`,
+    `- Generated: ${matrix.generatedAt}`,
+    '',
+    `| Feature | Test | ${matrix.transports.join(' | ')} |`,
+    `| --- | --- | ${matrix.transports.map(() => '---').join(' | ')} |`,
+    ...matrix.features.map(f => `| ${f.id} | ${f.test} | ${matrix.transports.map(t => cell(f.results[t])).join(' | ')} |`),
+    ''
+  ].join('\n');
+}
+
+/**
+ * Merges the current run into results-<transport>.json, then regenerates
+ * feature-matrix.json and feature-matrix.md from every results file in the
+ * output directory, so consecutive runs over different transports fill in
+ * their own columns and partial runs only update their own cells.
+ */
+export class FeatureMatrixReporter implements Pick<Reporter, 'onRunComplete'> {
+  private outputDir: string;
+
+  constructor(private globalConfig: { rootDir: string }, options: { outputDir?: string } = {}) {
+    this.outputDir = path.resolve(globalConfig.rootDir, options.outputDir ?? 'reports');
+  }
+
+  onRunComplete(_contexts: Set<TestContext>, results: AggregatedResult) {
+    const transport = transportFromEnv();
+    const run = collectResults(results, transport, this.globalConfig.rootDir);
+    const resultsFile = path.join(this.outputDir, `results-${transport}.json`);
+    const previous: TransportResults | undefined = existsSync(resultsFile)
+      ? JSON.parse(readFileSync(resultsFile, 'utf8'))
+      : undefined;
+    mkdirSync(this.outputDir, { recursive: true });
+    writeFileSync(resultsFile, JSON.stringify(mergeResults(previous, run), null, 2));
+
+    const runs: TransportResults[] = readdirSync(this.outputDir)
+      .filter(f => /^results-.+\.json$/.test(f))
+      .map(f => JSON.parse(readFileSync(path.join(this.outputDir, f), 'utf8')));
+    const matrix = buildMatrix(runs);
+    writeFileSync(path.join(this.outputDir, 'feature-matrix.json'), JSON.stringify(matrix, null, 2));
+    writeFileSync(path.join(this.outputDir, 'feature-matrix.md'), formatMarkdown(matrix));
+
+    const unmapped = run.tests.filter(t => t.featureId === 'unmapped').map(t => t.test);
+    if (unmapped.length) {
+      console.warn(`Tests without a feature ID (add them to FEATURE_IDS): ${unmapped.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, readdirSync, existsSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { TRANSPORT_KINDS, TransportKind } from '../shared/endpoint';
+
+/** Feature suites that run on any transport; transport-specific suites are left out. */
+export const FEATURE_SUITES: { feature: string; file: string }[] = [
+  { feature: 'tools', file: 'tests/tools.test.ts' },
+  { feature: 'prompts', file: 'tests/prompts.test.ts' },
+  { feature: 'resources', file: 'tests/resources.test.ts' },
+  { feature: 'templates', file: 'tests/templates.test.ts' },
+  { feature: 'sampling', file: 'tests/sampling.test.ts' },
+  { feature: 'roots', file: 'tests/roots.test.ts' },
+  { feature: 'server utilities', file: 'tests/serverutilites.test.ts' },
+  { feature: 'blobs', file: 'tests/blobs.test.ts' },
+  { feature: 'pagination', file: 'tests/pagination.test.ts' },
+  { feature: 'versions', file: 'tests/versions.test.ts' },
+  { feature: 'capabilities', file: 'tests/capabilities.test.ts' },
+  { feature: 'auth', file: 'tests/auth.test.ts' },
+  { feature: 'resumption', file: 'tests/resumption.test.ts' }
+];
+
+export type CellStatus = 'pass' | 'fail' | 'skip' | 'error';
+
+export interface MatrixCell {
+  feature: string;
+  transport: TransportKind;
+  status: CellStatus;
+  passed: number;
+  total: number;
+  failures: string[];
+}
+
+// Subset of the `jest --json` output the matrix reads
+interface JestJsonResult {
+  testResults: {
+    name: string;
+    status: 'passed' | 'failed';
+    message: string;
+    assertionResults: { title: string; status: string }[];
+  }[];
+}
+
+const RUN_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Runs the feature suites in a separate Jest process with MCP_TRANSPORT set, so a
+ * hang or crash on one transport only costs that transport's cells.
+ */
+function runTransport(transport: TransportKind): MatrixCell[] {
+  const outputDir = mkdtempSync(path.join(tmpdir(), 'mcp-matrix-'));
+  const outputFile = path.join(outputDir, `${transport}.json`);
+  const run = spawnSync(process.execPath, [
+    '--experimental-vm-modules',
+    'node_modules/.bin/jest',
+    '--silent',
+    '--forceExit',
+    '--json',
+    `--outputFile=${outputFile}`,
+    ...FEATURE_SUITES.map(s => s.file)
+  ], {
+    env: { ...process.env, MCP_TRANSPORT: transport },
+    stdio: ['ignore', 'ignore', 'inherit'],
+    timeout: RUN_TIMEOUT_MS
+  });
+
+  const results: JestJsonResult | undefined = existsSync(outputFile)
+    ? JSON.parse(readFileSync(outputFile, 'utf8'))
+    : undefined;
+  rmSync(outputDir, { recursive: true, force: true });
+
+  return FEATURE_SUITES.map(({ feature, file }) => {
+    const suite = results?.testResults.find(r => r.name === path.resolve(file));
+    if (!suite) {
+      const reason = run.error ? run.error.message : `jest exited with ${run.status ?? run.signal}`;
+      return { feature, transport, status: 'error', passed: 0, total: 0, failures: [`No result: ${reason}`] };
+    }
+    const passed = suite.assertionResults.filter(a => a.status === 'passed').length;
+    const failures = suite.assertionResults.filter(a => a.status === 'failed').map(a => a.title);
+    // A suite that fails outside any test (e.g. in beforeAll) has no failed assertions to point at
+    if (suite.status === 'failed' && failures.length === 0) {
+      return { feature, transport, status: 'error', passed, total: suite.assertionResults.length, failures: [suite.message.split('\n').find(Boolean) ?? 'Suite failed to run'] };
+    }
+    // Suites that do not cover a transport skip all their tests there, which is not a pass
+    if (passed === 0 && failures.length === 0) {
+      return { feature, transport, status: 'skip', passed, total: suite.assertionResults.length, failures };
+    }
+    return { feature, transport, status: failures.length ? 'fail' : 'pass', passed, total: suite.assertionResults.length, failures };
+  });
+}
+
+function formatMatrix(cells: MatrixCell[], transports: TransportKind[]) {
+  const label = (cell?: MatrixCell) => {
+    if (!cell) return '';
+    if (cell.status === 'error') return 'ERROR';
+    if (cell.status === 'skip') return 'skip';
+    return `${cell.status === 'pass' ? 'PASS' : 'FAIL'} ${cell.passed}/${cell.total}`;
+  };
+  const lines = [
+    `| feature | ${transports.join(' | ')} |`,
+    `| --- | ${transports.map(() => '---').join(' | ')} |`
+  ];
+  for (const { feature } of FEATURE_SUITES) {
+    lines.push(`| ${feature} | ${transports.map(t => label(cells.find(c => c.feature === feature && c.transport === t))).join(' | ')} |`);
+  }
+  return lines.join('\n');
+}
+
+// Where reporters/featureMatrix.ts writes, as configured in jest.config.js
+const REPORT_DIR = 'reports';
+
+export function runMatrix(transports: TransportKind[] = TRANSPORT_KINDS) {
+  // Drop columns left by earlier runs so the feature matrix only shows this one
+  if (existsSync(REPORT_DIR)) {
+    for (const file of readdirSync(REPORT_DIR).filter(f => /^results-.+\.json$/.test(f))) {
+      rmSync(path.join(REPORT_DIR, file));
+    }
+  }
+  const cells: MatrixCell[] = [];
+  for (const transport of transports) {
+    console.log(`Running feature suites over ${transport}...`);
+    cells.push(...runTransport(transport));
+  }
+  return cells;
+}
+
+if (require.main === module) {
+  const requested = process.argv.slice(2) as TransportKind[];
+  const unknown = requested.filter(t => !TRANSPORT_KINDS.includes(t));
+  if (unknown.length) {
+    console.error(`Unknown transport(s): ${unknown.join(', ')}. Expected: ${TRANSPORT_KINDS.join(', ')}`);
+    process.exit(2);
+  }
+  const transports = requested.length ? requested : TRANSPORT_KINDS;
+  const cells = runMatrix(transports);
+  console.log(formatMatrix(cells, transports));
+  console.log(`\nPer-test feature matrix: ${REPORT_DIR}/feature-matrix.json, ${REPORT_DIR}/feature-matrix.md`);
+  for (const cell of cells.filter(c => c.status === 'fail' || c.status === 'error')) {
+    console.log(`\n${cell.feature} × ${cell.transport}:\n  ${cell.failures.join('\n  ')}`);
+  }
+  process.exit(cells.every(c => c.status === 'pass' || c.status === 'skip') ? 0 : 1);
+}
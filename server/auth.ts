@@ -0,0 +1,197 @@
+import { randomUUID } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import express from 'express';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mcpAuthRouter } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { OAuthRegisteredClientsStore } from '@modelcontextprotocol/sdk/server/auth/clients.js';
+import { AuthorizationParams, OAuthServerProvider } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { InvalidGrantError, InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { OAuthClientInformationFull, OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { CallToolRequestSchema, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export interface AuthOptions {
+  /** Bearer tokens accepted as they are, each with the scopes it grants. */
+  tokens?: Record<string, string[]>;
+  /** Also serve a mock OAuth authorization server next to the MCP endpoints. */
+  oauth?: boolean | MockOAuthOptions;
+}
+
+export interface MockOAuthOptions {
+  /** Milliseconds an issued access token stays valid; defaults to one hour. */
+  tokenTtl?: number;
+}
+
+interface PendingCode {
+  clientId: string;
+  challenge: string;
+  scopes: string[];
+}
+
+interface IssuedToken {
+  clientId: string;
+  scopes: string[];
+  /** Seconds since the epoch, as AuthInfo has it. */
+  expiresAt: number;
+}
+
+/**
+ * An authorization server that approves every request at once, for tests. Clients
+ * register dynamically, are redirected straight back with a code for whatever
+ * scopes they asked for, and exchange it for an access token that expires after
+ * `tokenTtl` and a refresh token. Refreshing replaces both.
+ *
+ * Static tokens are verified here too, so one provider answers for all of them.
+ */
+export class MockOAuthProvider implements OAuthServerProvider {
+  private clients = new Map<string, OAuthClientInformationFull>();
+  private codes = new Map<string, PendingCode>();
+  private accessTokens = new Map<string, IssuedToken>();
+  private refreshTokens = new Map<string, { clientId: string; scopes: string[] }>();
+  /** How many tokens each grant type has issued, so tests can see a refresh happen. */
+  readonly issued = { authorization_code: 0, refresh_token: 0 };
+
+  constructor(private staticTokens: Record<string, string[]> = {}, private tokenTtl = 60 * 60 * 1000) {}
+
+  get clientsStore(): OAuthRegisteredClientsStore {
+    return {
+      getClient: (clientId) => this.clients.get(clientId),
+      registerClient: (client) => {
+        this.clients.set(client.client_id, client);
+        return client;
+      }
+    };
+  }
+
+  async authorize(client: OAuthClientInformationFull, params: AuthorizationParams, res: any) {
+    const code = randomUUID();
+    this.codes.set(code, { clientId: client.client_id, challenge: params.codeChallenge, scopes: params.scopes ?? [] });
+    const target = new URL(params.redirectUri);
+    target.searchParams.set('code', code);
+    if (params.state !== undefined) {
+      target.searchParams.set('state', params.state);
+    }
+    res.redirect(302, target.href);
+  }
+
+  async challengeForAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string) {
+    return this.pendingCode(client, authorizationCode).challenge;
+  }
+
+  async exchangeAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string) {
+    const { scopes } = this.pendingCode(client, authorizationCode);
+    this.codes.delete(authorizationCode);
+    this.issued.authorization_code++;
+    return this.issue(client.client_id, scopes);
+  }
+
+  async exchangeRefreshToken(client: OAuthClientInformationFull, refreshToken: string, scopes?: string[]) {
+    const grant = this.refreshTokens.get(refreshToken);
+    if (!grant || grant.clientId !== client.client_id) {
+      throw new InvalidGrantError('Invalid refresh token');
+    }
+    if (scopes?.some(scope => !grant.scopes.includes(scope))) {
+      throw new InvalidGrantError('Refresh cannot add scopes');
+    }
+    this.refreshTokens.delete(refreshToken);
+    this.issued.refresh_token++;
+    return this.issue(client.client_id, scopes ?? grant.scopes);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    if (token in this.staticTokens) {
+      return { token, clientId: 'static', scopes: this.staticTokens[token] };
+    }
+    const issued = this.accessTokens.get(token);
+    if (!issued) {
+      throw new InvalidTokenError('Invalid token');
+    }
+    // Expired tokens are returned as they are; requireBearerAuth answers them with 401
+    return { token, ...issued };
+  }
+
+  async revokeToken(client: OAuthClientInformationFull, { token }: { token: string }) {
+    if (this.accessTokens.get(token)?.clientId === client.client_id) this.accessTokens.delete(token);
+    if (this.refreshTokens.get(token)?.clientId === client.client_id) this.refreshTokens.delete(token);
+  }
+
+  private pendingCode(client: OAuthClientInformationFull, authorizationCode: string) {
+    const pending = this.codes.get(authorizationCode);
+    if (!pending || pending.clientId !== client.client_id) {
+      throw new InvalidGrantError('Invalid authorization code');
+    }
+    return pending;
+  }
+
+  private issue(clientId: string, scopes: string[]): OAuthTokens {
+    const accessToken = randomUUID();
+    const refreshToken = randomUUID();
+    this.accessTokens.set(accessToken, { clientId, scopes, expiresAt: (Date.now() + this.tokenTtl) / 1000 });
+    this.refreshTokens.set(refreshToken, { clientId, scopes });
+    return {
+      access_token: accessToken,
+      token_type: 'bearer',
+      expires_in: this.tokenTtl / 1000,
+      refresh_token: refreshToken,
+      scope: scopes.join(' ')
+    };
+  }
+}
+
+/**
+ * Puts the HTTP endpoints in `paths` behind bearer authorization. Requests without a
+ * valid, unexpired token get 401 with a `WWW-Authenticate` challenge; the SSE and
+ * Streamable HTTP transports hand the verified token to handlers as `extra.authInfo`.
+ * With `oauth`, the mock authorization server's metadata, registration, authorize,
+ * token and revoke endpoints are served from the root of `issuer`.
+ */
+export function installAuth(app: ReturnType<typeof express>, paths: string[], issuer: URL, options: AuthOptions) {
+  const oauth = options.oauth === true ? {} : options.oauth || undefined;
+  const provider = new MockOAuthProvider(options.tokens, oauth?.tokenTtl);
+  if (oauth) {
+    app.use(mcpAuthRouter({
+      provider,
+      issuerUrl: issuer,
+      authorizationOptions: { rateLimit: false },
+      tokenOptions: { rateLimit: false },
+      clientRegistrationOptions: { rateLimit: false },
+      revocationOptions: { rateLimit: false }
+    }));
+  }
+  app.use(paths, requireBearerAuth({ provider }));
+  return provider;
+}
+
+/**
+ * Checks the bearer token of a WebSocket upgrade, which bypasses express, the way
+ * requireBearerAuth checks HTTP requests. Resolves to the token's AuthInfo, or to
+ * undefined when the upgrade must be refused.
+ */
+export async function authorizeUpgrade(provider: MockOAuthProvider, req: IncomingMessage) {
+  const [type, token] = (req.headers.authorization ?? '').split(' ');
+  if (type.toLowerCase() !== 'bearer' || !token) {
+    return undefined;
+  }
+  const authInfo = await provider.verifyAccessToken(token).catch(() => undefined);
+  return authInfo && !(authInfo.expiresAt && authInfo.expiresAt < Date.now() / 1000) ? authInfo : undefined;
+}
+
+/**
+ * Refuses tools/call for a tool in `scopes` unless the caller's token has every scope
+ * listed for it. Requests that carry no token, over stdio, memory or a server without
+ * auth, are not restricted.
+ */
+export function requireToolScopes(mcpServer: McpServer, scopes: Record<string, string[]>) {
+  const origHandler = (mcpServer.server as any)._requestHandlers.get('tools/call');
+  if (!origHandler) return;
+  mcpServer.server.removeRequestHandler('tools/call');
+  mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request: any, extra: any) => {
+    const granted: string[] | undefined = extra.authInfo?.scopes;
+    const missing = (scopes[request.params.name] ?? []).filter(scope => !granted?.includes(scope));
+    if (granted && missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidRequest, `Tool ${request.params.name} requires scope ${missing.join(' ')}`);
+    }
+    return origHandler(request, extra);
+  });
+}
@@ -0,0 +1,44 @@
+/** A 1×1 transparent PNG. */
+export const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+/** Every byte value once, from 0x00 to 0xff. */
+export const ALL_BYTES = Buffer.from(Array.from({ length: 256 }, (_, i) => i));
+
+/** Largest payload `http://example.com/binary/{size}.bin` will generate. */
+export const MAX_PATTERN_SIZE = 32 * 1024 * 1024;
+
+/**
+ * `size` bytes of a repeatable pseudo-random sequence, so large payloads can be
+ * regenerated and compared on the receiving side.
+ */
+export function patternBytes(size: number) {
+  const bytes = Buffer.alloc(size);
+  let state = 0x2545f491;
+  for (let i = 0; i < size; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    bytes[i] = state >>> 24;
+  }
+  return bytes;
+}
+
+/** A 10 ms, 8 kHz, 8-bit mono WAV of a square wave. */
+export const BEEP_WAV = (() => {
+  const samples = Buffer.from(Array.from({ length: 80 }, (_, i) => (i % 8 < 4 ? 0xc0 : 0x40)));
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + samples.length, 4);
+  header.write('WAVEfmt ', 8);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(8000, 24);
+  header.writeUInt32LE(8000, 28);
+  header.writeUInt16LE(1, 32);
+  header.writeUInt16LE(8, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(samples.length, 40);
+  return Buffer.concat([header, samples]);
+})();
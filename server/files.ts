@@ -0,0 +1,116 @@
+import { readdir, readFile, realpath, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ErrorCode,
+  McpError,
+  Resource,
+  Root,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { SessionRoots } from './roots';
+
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.js': 'text/javascript',
+  '.ts': 'text/typescript',
+  '.rs': 'text/x-rust',
+  '.py': 'text/x-python',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.pdf': 'application/pdf'
+};
+
+/** Guesses a MIME type from the file extension, falling back to raw bytes. */
+export function mimeTypeFor(file: string) {
+  return MIME_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+}
+
+const isText = (mimeType: string) =>
+  mimeType.startsWith('text/') || ['application/json', 'application/xml', 'image/svg+xml'].includes(mimeType);
+
+// Regular files below `dir` in name order; symlinks are not followed
+async function walk(dir: string): Promise<string[]> {
+  const entries = (await readdir(dir, { withFileTypes: true })).sort((a, b) => (a.name < b.name ? -1 : 1));
+  const files = await Promise.all(entries.map(entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return walk(full);
+    return entry.isFile() ? [full] : [];
+  }));
+  return files.flat();
+}
+
+// Root directories with symlinks resolved; roots that are not local directories are skipped
+async function rootDirs(roots: Root[]) {
+  const dirs = await Promise.all(roots
+    .filter(root => root.uri.startsWith('file://'))
+    .map(root => realpath(fileURLToPath(root.uri)).catch(() => undefined)));
+  return dirs.filter((dir): dir is string => dir !== undefined);
+}
+
+/**
+ * Exposes the files under the client's `file://` roots, as tracked by `roots`,
+ * through a `file:///{+path}` template. When a roots change moves the exposed
+ * directories, clients are sent `notifications/resources/list_changed`.
+ *
+ * Reads resolve symlinks and refuse anything that ends up outside every root.
+ */
+export function registerFileResources(mcpServer: McpServer, roots: SessionRoots) {
+  const currentRoots = async (extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => rootDirs(await roots.current(extra));
+
+  // Without an earlier fetch there is nothing to compare with, so any roots count as a change
+  roots.subscribe(async (next, previous) => {
+    const [before, after] = await Promise.all([rootDirs(previous ?? []), rootDirs(next)]);
+    if (previous === undefined || JSON.stringify(before) !== JSON.stringify(after)) {
+      mcpServer.sendResourceListChanged();
+    }
+  });
+
+  const template = new ResourceTemplate('file:///{+path}', {
+    list: async (extra) => {
+      const resources: Resource[] = [];
+      for (const root of await currentRoots(extra)) {
+        for (const file of await walk(root)) {
+          resources.push({ uri: pathToFileURL(file).href, name: path.relative(root, file), mimeType: mimeTypeFor(file) });
+        }
+      }
+      return { resources };
+    }
+  });
+
+  mcpServer.resource('root-files', template, async (uri, _vars, extra) => {
+    const requested = fileURLToPath(uri);
+    const dirs = await currentRoots(extra);
+    const inRoots = (file: string) => dirs.some(root => {
+      const relative = path.relative(root, file);
+      return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+    });
+    // Missing files are only reported as such inside the roots
+    const file = await realpath(requested).catch(() => requested);
+    if (!inRoots(file)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Access denied: ${requested} is outside the client's roots`);
+    }
+    if (!(await stat(file).catch(() => undefined))?.isFile()) {
+      throw new McpError(-32002, 'Resource not found', { uri: uri.href });
+    }
+    const mimeType = mimeTypeFor(file);
+    const data = await readFile(file);
+    return {
+      contents: [isText(mimeType)
+        ? { uri: uri.href, mimeType, text: data.toString('utf8') }
+        : { uri: uri.href, mimeType, blob: data.toString('base64') }]
+    };
+  });
+}
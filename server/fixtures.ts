@@ -0,0 +1,323 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z, ZodTypeAny } from 'zod';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { McpError, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { requireToolScopes } from './auth';
+
+// ts-node and the build run this module as CommonJS, which has __dirname. Jest loads it as an
+// ES module without one, and import.meta cannot appear in a file that also builds to CommonJS,
+// so there it is server/ under the working directory, the repository root Jest runs from.
+const moduleDir = typeof __dirname === 'string' ? __dirname : path.resolve('server');
+
+/** The fixtures every server gets unless startServer is given others; an absolute path, next to this module. */
+export const DEFAULT_FIXTURES = path.join(moduleDir, 'fixtures.yaml');
+
+export interface ArgumentSpec {
+  /** Defaults to `string`; prompt arguments are always strings. */
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  optional?: boolean;
+  /** Applied when the argument is left out, which also makes it optional. */
+  default?: unknown;
+  /** Allowed values of a string. */
+  enum?: string[];
+  /** Element type of an array. */
+  items?: ArgumentSpec;
+  properties?: Record<string, ArgumentSpec>;
+  /** Completion values, or the name of a completer the server provides. */
+  complete?: string[] | string;
+}
+
+const ArgumentSpecSchema: z.ZodType<ArgumentSpec> = z.lazy(() => z.object({
+  type: z.enum(['string', 'number', 'integer', 'boolean', 'array', 'object']).optional(),
+  description: z.string().optional(),
+  optional: z.boolean().optional(),
+  default: z.unknown().optional(),
+  enum: z.array(z.string()).nonempty().optional(),
+  items: ArgumentSpecSchema.optional(),
+  properties: z.record(ArgumentSpecSchema).optional(),
+  complete: z.union([z.array(z.string()), z.string()]).optional()
+}).strict());
+
+// Numbers may also be `{{argument}}` placeholders
+const Amount = z.union([z.number(), z.string()]);
+
+const BehaviourSchema = z.object({
+  /** Arguments (or template variables) this behaviour applies to, compared for equality. */
+  when: z.record(z.unknown()).optional(),
+  /** Milliseconds to wait before answering. */
+  delay: Amount.optional(),
+  /** Steps to report as progress before answering, spread over `duration` or `interval` ms apart. */
+  progress: z.object({
+    steps: Amount,
+    interval: Amount.optional(),
+    duration: Amount.optional(),
+    /** Defaults to `Step {{step}}`. */
+    message: z.string().optional()
+  }).strict().optional(),
+  /** Thrown instead of answering; an McpError when `code` is set. After `afterStep` progress steps if given. */
+  error: z.object({
+    code: Amount.optional(),
+    message: z.string(),
+    data: z.unknown().optional(),
+    afterStep: z.number().int().positive().optional()
+  }).strict().optional(),
+  /** The response, with `{{placeholders}}` filled in. */
+  result: z.unknown().optional(),
+  /** Name of a handler the server provides, for behaviour data cannot express. */
+  handler: z.string().optional()
+}).strict();
+
+// An error after a step that never comes would otherwise leave the call to succeed
+const checkAfterStep = (behaviour: z.infer<typeof BehaviourSchema>, ctx: z.RefinementCtx) => {
+  const afterStep = behaviour.error?.afterStep;
+  if (afterStep === undefined) return;
+  if (!behaviour.progress) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['error', 'afterStep'], message: 'afterStep needs progress steps to come after' });
+  } else if (typeof behaviour.progress.steps === 'number' && afterStep > behaviour.progress.steps) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['error', 'afterStep'], message: `afterStep is past the last of ${behaviour.progress.steps} steps` });
+  }
+};
+
+const fixture = <T extends z.ZodRawShape>(shape: T) => BehaviourSchema.extend({
+  name: z.string(),
+  description: z.string().optional(),
+  /** Checked in order before the fixture's own behaviour; the first whose `when` matches is used. */
+  cases: z.array(BehaviourSchema.superRefine(checkAfterStep)).optional(),
+  ...shape
+}).strict().superRefine(checkAfterStep);
+
+export const FixtureSpecSchema = z.object({
+  tools: z.array(fixture({
+    arguments: z.record(ArgumentSpecSchema).optional(),
+    /** Registered, then disabled: hidden from tools/list and refused when called. */
+    disabled: z.boolean().optional(),
+    /** Scopes a caller's access token needs to call the tool, when the server checks tokens. */
+    scopes: z.array(z.string()).optional()
+  })).optional(),
+  prompts: z.array(fixture({
+    arguments: z.record(ArgumentSpecSchema).optional()
+  })).optional(),
+  resources: z.array(fixture({
+    uri: z.string(),
+    mimeType: z.string().optional()
+  })).optional(),
+  templates: z.array(fixture({
+    uriTemplate: z.string(),
+    mimeType: z.string().optional(),
+    /** Completion values (or completer names) per template variable. */
+    complete: z.record(z.union([z.array(z.string()), z.string()])).optional(),
+    /** What resources/list shows for this template; it is left out of the list when omitted. */
+    list: z.array(z.object({ uri: z.string(), name: z.string(), mimeType: z.string().optional() })).optional()
+  })).optional()
+}).strict();
+
+export type FixtureSpec = z.infer<typeof FixtureSpecSchema>;
+type Behaviour = z.infer<typeof BehaviourSchema>;
+type Fixture = Behaviour & { name: string; cases?: Behaviour[] };
+
+export type FixtureHandler = (
+  args: Record<string, any>,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => Promise<any>;
+
+/** Behaviour a spec refers to by name, supplied by the code that registers it. */
+export interface FixtureBuiltins {
+  handlers?: Record<string, FixtureHandler>;
+  completers?: Record<string, (value: string) => string[]>;
+  /** Values placeholders can reach as `{{assets.<name>}}`, such as base64 test images. */
+  assets?: Record<string, unknown>;
+}
+
+/**
+ * Reads and checks fixture specs. Strings are JSON or YAML files, resolved against
+ * the working directory; several specs are merged in order, a later fixture
+ * replacing an earlier one of the same name.
+ */
+export function loadFixtures(source: string | FixtureSpec | (string | FixtureSpec)[] = DEFAULT_FIXTURES): FixtureSpec {
+  const specs = [source].flat().map(entry => {
+    if (typeof entry !== 'string') {
+      return parseSpec(entry, 'inline fixture spec');
+    }
+    const text = readFileSync(path.resolve(entry), 'utf8');
+    return parseSpec(/\.json$/i.test(entry) ? JSON.parse(text) : parseYaml(text), entry);
+  });
+  const merge = <T extends { name: string }>(lists: (T[] | undefined)[]) => {
+    const byName = new Map<string, T>();
+    lists.flat().forEach(item => {
+      if (!item) return;
+      byName.delete(item.name);
+      byName.set(item.name, item);
+    });
+    return [...byName.values()];
+  };
+  return {
+    tools: merge(specs.map(spec => spec.tools)),
+    prompts: merge(specs.map(spec => spec.prompts)),
+    resources: merge(specs.map(spec => spec.resources)),
+    templates: merge(specs.map(spec => spec.templates))
+  };
+}
+
+function parseSpec(data: unknown, source: string) {
+  const parsed = FixtureSpecSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid fixture spec in ${source}:\n${issues.join('\n')}`);
+  }
+  return parsed.data;
+}
+
+const lookup = (context: Record<string, unknown>, key: string) =>
+  key.split('.').reduce<any>((value, part) => value?.[part], context);
+
+/**
+ * Fills `{{name}}` placeholders from `context`; dotted names reach into objects. A
+ * string that is only a placeholder becomes the value itself, keeping its type, so
+ * numbers stay numbers and a missing value drops the property.
+ */
+export function render(template: unknown, context: Record<string, unknown>): any {
+  if (typeof template === 'string') {
+    const whole = /^\{\{\s*([\w.]+)\s*\}\}$/.exec(template);
+    if (whole) return lookup(context, whole[1]);
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key) => String(lookup(context, key) ?? ''));
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => render(item, context));
+  }
+  if (template && typeof template === 'object') {
+    const entries = Object.entries(template).map(([key, value]) => [key, render(value, context)]);
+    return Object.fromEntries(entries.filter(([, value]) => value !== undefined));
+  }
+  return template;
+}
+
+/** Builds the zod schema McpServer validates an argument with, and lists in inputSchema. */
+function argumentSchema(spec: ArgumentSpec, builtins: FixtureBuiltins): ZodTypeAny {
+  let schema: ZodTypeAny;
+  switch (spec.type ?? 'string') {
+    case 'number': schema = z.number(); break;
+    case 'integer': schema = z.number().int(); break;
+    case 'boolean': schema = z.boolean(); break;
+    case 'array': schema = z.array(argumentSchema(spec.items ?? {}, builtins)); break;
+    case 'object': schema = z.object(argumentShape(spec.properties ?? {}, builtins)); break;
+    default: schema = spec.enum ? z.enum(spec.enum as [string, ...string[]]) : z.string();
+  }
+  if (spec.complete) {
+    const complete = completer(spec.complete, builtins);
+    schema = completable(schema, (value) => complete(String(value)));
+  }
+  if (spec.description) schema = schema.describe(spec.description);
+  if (spec.default !== undefined) return schema.default(spec.default);
+  return spec.optional ? schema.optional() : schema;
+}
+
+function argumentShape(args: Record<string, ArgumentSpec>, builtins: FixtureBuiltins) {
+  return Object.fromEntries(Object.entries(args).map(([name, spec]) => [name, argumentSchema(spec, builtins)]));
+}
+
+function completer(source: string[] | string, builtins: FixtureBuiltins) {
+  if (Array.isArray(source)) {
+    return (value: string) => source.filter(option => option.startsWith(value));
+  }
+  const named = builtins.completers?.[source];
+  if (!named) throw new Error(`Fixture spec refers to unknown completer ${source}`);
+  return named;
+}
+
+/** Runs a fixture: picks the matching case, then waits, reports progress and answers or fails. */
+function behave(fixture: Fixture, builtins: FixtureBuiltins): FixtureHandler {
+  const chosen = (args: Record<string, any>) => fixture.cases?.find(c =>
+    Object.entries(c.when ?? {}).every(([key, value]) => JSON.stringify(args[key]) === JSON.stringify(value))) ?? fixture;
+  for (const name of [fixture, ...(fixture.cases ?? [])].map(b => b.handler).filter(Boolean)) {
+    if (!builtins.handlers?.[name!]) throw new Error(`Fixture ${fixture.name} refers to unknown handler ${name}`);
+  }
+
+  return async (args, extra) => {
+    const behaviour = chosen(args);
+    const context = { ...args, assets: builtins.assets };
+    const fail = () => {
+      const { code, message, data } = render(behaviour.error, context);
+      throw code === undefined ? new Error(message) : new McpError(Number(code), message, data);
+    };
+
+    if (behaviour.delay !== undefined) {
+      await new Promise(r => setTimeout(r, Number(render(behaviour.delay, context))));
+    }
+    if (behaviour.progress) {
+      const steps = Number(render(behaviour.progress.steps, context));
+      const interval = behaviour.progress.interval !== undefined
+        ? Number(render(behaviour.progress.interval, context))
+        : Number(render(behaviour.progress.duration ?? 0, context)) / steps;
+      const progressToken = extra._meta?.progressToken;
+      for (let step = 1; step <= steps; step++) {
+        if (extra.signal.aborted) {
+          throw new Error('Cancelled');
+        }
+        await new Promise(r => setTimeout(r, interval));
+        if (progressToken !== undefined) {
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress: step, total: steps, message: render(behaviour.progress.message ?? 'Step {{step}}', { ...context, step, total: steps }) }
+          });
+        }
+        if (behaviour.error?.afterStep === step) fail();
+      }
+    }
+    // Also when `afterStep` was never reached, which a templated step count can only show now
+    if (behaviour.error) fail();
+    if (behaviour.handler) {
+      return builtins.handlers![behaviour.handler](args, extra);
+    }
+    return render(behaviour.result ?? {}, context);
+  };
+}
+
+/**
+ * Registers every fixture in `spec` through the ordinary McpServer calls, so they
+ * behave exactly like fixtures written as code.
+ */
+export function registerFixtures(mcpServer: McpServer, spec: FixtureSpec, builtins: FixtureBuiltins = {}) {
+  // The overloads differ in which optional arguments they take, so the arguments are built as a list
+  const register = (method: 'tool' | 'prompt', name: string, description: string | undefined, shape: object | undefined, cb: Function) =>
+    (mcpServer[method] as Function).call(mcpServer, name, ...(description === undefined ? [] : [description]), ...(shape ? [shape] : []), cb);
+
+  for (const tool of spec.tools ?? []) {
+    const run = behave(tool, builtins);
+    const shape = tool.arguments && argumentShape(tool.arguments, builtins);
+    const registered = register('tool', tool.name, tool.description, shape,
+      shape ? (args: any, extra: any) => run(args, extra) : (extra: any) => run({}, extra));
+    if (tool.disabled) registered.disable();
+  }
+  // In front of McpServer's tools/call handler, so a missing scope is a JSON-RPC error rather than an isError result
+  requireToolScopes(mcpServer, Object.fromEntries((spec.tools ?? []).filter(tool => tool.scopes).map(tool => [tool.name, tool.scopes!])));
+
+  for (const prompt of spec.prompts ?? []) {
+    const run = behave(prompt, builtins);
+    // Prompt arguments always arrive as strings
+    const args = prompt.arguments && Object.fromEntries(Object.entries(prompt.arguments).map(([name, arg]) => [name, { ...arg, type: 'string' as const }]));
+    const shape = args && argumentShape(args, builtins);
+    register('prompt', prompt.name, prompt.description, shape,
+      shape ? (values: any, extra: any) => run(values, extra) : (extra: any) => run({}, extra));
+  }
+
+  for (const resource of spec.resources ?? []) {
+    const run = behave(resource, builtins);
+    mcpServer.resource(resource.name, resource.uri, { mimeType: resource.mimeType, description: resource.description },
+      (uri, extra) => run({ uri: uri.href }, extra));
+  }
+
+  for (const template of spec.templates ?? []) {
+    const run = behave(template, builtins);
+    const complete = template.complete && Object.fromEntries(Object.entries(template.complete)
+      .map(([variable, source]) => [variable, completer(source, builtins)]));
+    const list = template.list && (async () => ({ resources: template.list! }));
+    mcpServer.resource(template.name, new ResourceTemplate(template.uriTemplate, { list, complete }),
+      { mimeType: template.mimeType, description: template.description },
+      (uri, variables, extra) => run({ ...variables, uri: uri.href }, extra));
+  }
+}
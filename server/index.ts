@@ -1,69 +1,172 @@
 import express from 'express';
-import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, RegisteredResource } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { z } from 'zod';
-import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { WebSocketServer } from 'ws';
+import { WebSocketServerTransport } from './websocket';
+import { NewResource, ResourceStore, StoredResource } from './store';
+import { registerFileResources } from './files';
+import { trackRoots } from './roots';
+import { FixtureBuiltins, FixtureSpec, loadFixtures, registerFixtures } from './fixtures';
+import { PaginationOptions, paginate } from './pagination';
+import { negotiateVersion } from './versions';
+import { AuthOptions, authorizeUpgrade, installAuth } from './auth';
+import { InMemoryEventStore, ResumableSSEServerTransport, ResumptionOptions, sessionOfEventId } from './resumption';
+import { ALL_BYTES, BEEP_WAV, MAX_PATTERN_SIZE, PIXEL_PNG, patternBytes } from './blobs';
+import { createHash, randomUUID } from 'node:crypto';
 import {
   SubscribeRequestSchema,
   UnsubscribeRequestSchema,
   ReadResourceRequestSchema,
+  CompleteRequestSchema,
+  CreateMessageResultSchema,
+  Progress,
   SetLevelRequestSchema,
   LoggingLevel,
   McpError,
-  JSONRPCMessage
+  JSONRPCMessage,
+  isInitializeRequest
 } from '@modelcontextprotocol/sdk/types.js';
 import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ServerEndpoint, TransportKind, transportFromEnv } from '../shared/endpoint';
+import { TraceSink, defaultTraceSink } from '../shared/trace';
+import { FaultInjectingTransport, FaultPlan, InjectedFault } from '../shared/faults';
 
+type InnerServerTransport =
+  | SSEServerTransport
+  | ResumableSSEServerTransport
+  | StreamableHTTPServerTransport
+  | StdioServerTransport
+  | InMemoryTransport
+  | WebSocketServerTransport;
+
+// Faults are injected between the wire and the logging, so the trace shows what the server actually got
 class LoggingServerTransport implements Transport {
-  constructor(private inner: SSEServerTransport, private received: JSONRPCMessage[]) {}
+  private link: Transport;
+  constructor(
+    private inner: InnerServerTransport,
+    private received: JSONRPCMessage[],
+    private trace: TraceSink = defaultTraceSink,
+    faults?: { plan: FaultPlan; injected: InjectedFault[] }
+  ) {
+    this.link = faults ? new FaultInjectingTransport(inner, faults.plan, faults.injected) : inner;
+    if (!(inner instanceof StreamableHTTPServerTransport)) this.streamOpened();
+  }
   onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: unknown }) => void;
   onclose?: () => void;
   onerror?: (error: Error) => void;
-  get sessionId() { return this.inner.sessionId; }
+  private connection = randomUUID();
+  private streamOpened!: () => void;
+  /**
+   * Resolves once the client has opened its standalone GET stream, which Streamable HTTP
+   * needs for server requests that are not sent while answering one; at once for the others.
+   */
+  readonly standaloneStream = new Promise<void>(resolve => { this.streamOpened = resolve; });
+  get sessionId() { return 'sessionId' in this.inner ? this.inner.sessionId : undefined; }
+  get kind(): TransportKind {
+    if (this.inner instanceof StdioServerTransport) return 'stdio';
+    if (this.inner instanceof InMemoryTransport) return 'memory';
+    if (this.inner instanceof WebSocketServerTransport) return 'websocket';
+    return this.inner instanceof StreamableHTTPServerTransport ? 'streamable-http' : 'sse';
+  }
   async start() {
-    this.inner.onmessage = (m, extra) => {
-      console.log('Server Received:', m);
+    // stdout carries the protocol in stdio mode, so logs go to stderr there
+    const log = this.kind === 'stdio' ? console.error : console.log;
+    this.link.onmessage = (m, extra) => {
+      log('Server Received:', m);
       this.received.push(m);
+      this.trace.record({ side: 'server', direction: 'in', sessionId: this.sessionId, connection: this.connection, transport: this.kind, message: m });
       this.onmessage?.(m, extra);
     };
-    this.inner.onclose = () => this.onclose?.();
-    this.inner.onerror = (e) => this.onerror?.(e);
-    await this.inner.start();
+    this.link.onclose = () => this.onclose?.();
+    this.link.onerror = (e) => this.onerror?.(e);
+    await this.link.start();
   }
-  async send(message: JSONRPCMessage, _options?: TransportSendOptions) {
-    await this.inner.send(message);
+  async send(message: JSONRPCMessage, options?: TransportSendOptions) {
+    this.trace.record({ side: 'server', direction: 'out', sessionId: this.sessionId, connection: this.connection, transport: this.kind, message });
+    await this.link.send(message, options);
   }
   async close() {
-    await this.inner.close();
+    await this.link.close();
     this.onclose?.();
   }
   async handlePostMessage(req: any, res: any, parsedBody?: any) {
-    await (this.inner as any).handlePostMessage(req, res, parsedBody);
+    await (this.inner as SSEServerTransport).handlePostMessage(req, res, parsedBody);
+  }
+  async handleRequest(req: any, res: any, parsedBody?: any) {
+    await (this.inner as StreamableHTTPServerTransport).handleRequest(req, res, parsedBody);
+    if (req.method === 'GET' && res.statusCode === 200 && !res.writableEnded) {
+      this.streamOpened();
+    }
+  }
+  /** Whether the session waits for its client to come back when its SSE stream drops. */
+  get resumable() { return this.inner instanceof ResumableSSEServerTransport; }
+  resume(res: any, lastEventId: string) {
+    (this.inner as ResumableSSEServerTransport).resume(res, lastEventId);
   }
 }
 
-export function startServer(port: number = 8080) {
-  const app = express();
-  app.use(express.json());
+// Parsed on first use and shared by every server that uses the default fixtures
+let defaultSpec: FixtureSpec | undefined;
+const defaultFixtures = () => defaultSpec ??= loadFixtures();
 
-  const serverReceived: JSONRPCMessage[] = [];
+/** Optional server capabilities, each on unless set to false. */
+export interface ServerCapabilityProfile {
+  /** `logging`, with logging/setLevel and notifications/message. */
+  logging?: boolean;
+  /** `resources.subscribe`, with resources/subscribe and resources/unsubscribe. */
+  subscribe?: boolean;
+  /** `sampling`, declared though no client calls it. */
+  sampling?: boolean;
+  /** `completions`, with completion/complete. */
+  completions?: boolean;
+}
 
-  const mcpServer = new McpServer({ name: 'test-sse-server', version: '1.0.0' });
+interface CreateServerOptions {
+  files?: boolean;
+  pagination?: PaginationOptions;
+  fixtures?: FixtureSpec;
+  protocolVersions?: string[];
+  capabilities?: ServerCapabilityProfile;
+  strictCapabilities?: boolean;
+}
+
+/**
+ * Builds the fixture server. Subscriptions and the log level live in this closure,
+ * so every session gets its own server and that state is never shared between them.
+ * Stored resources come from `store`, which sessions do share. Tools, prompts and
+ * the other resources come from the fixture spec, server/fixtures.yaml by default.
+ */
+function createMcpServer(store = new ResourceStore(), options: CreateServerOptions = {}) {
+  const mcpServer = new McpServer(
+    { name: 'test-sse-server', version: '1.0.0' },
+    { enforceStrictCapabilities: options.strictCapabilities }
+  );
 
-  // Register capabilities used in tests
-  mcpServer.server.registerCapabilities({ logging: {}, resources: { subscribe: true }, sampling: {} });
+  // Register capabilities used in tests. A capability left out of the profile is not
+  // declared and its methods get no handler, so clients calling them get Method not found.
+  const profile = { logging: true, subscribe: true, sampling: true, completions: true, ...options.capabilities };
+  mcpServer.server.registerCapabilities({
+    ...(profile.logging && { logging: {} }),
+    ...(profile.subscribe && { resources: { subscribe: true } }),
+    ...(profile.sampling && { sampling: {} })
+  });
 
   const subscribedResources = new Set<string>();
 
-  mcpServer.server.setRequestHandler(SubscribeRequestSchema, async (req) => {
-    subscribedResources.add(req.params.uri);
-    return {};
-  });
+  if (profile.subscribe) {
+    mcpServer.server.setRequestHandler(SubscribeRequestSchema, async (req) => {
+      subscribedResources.add(req.params.uri);
+      return {};
+    });
 
-  mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, async (req) => {
-    subscribedResources.delete(req.params.uri);
-    return {};
-  });
+    mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, async (req) => {
+      subscribedResources.delete(req.params.uri);
+      return {};
+    });
+  }
 
   const originalSendResourceUpdated = mcpServer.server.sendResourceUpdated.bind(mcpServer.server);
   mcpServer.server.sendResourceUpdated = async (params) => {
@@ -75,135 +178,160 @@ export function startServer(port: number = 8080) {
   // Logging setup
   const levels: LoggingLevel[] = ['debug','info','notice','warning','error','critical','alert','emergency'];
   let currentLogLevel: LoggingLevel = 'info';
-  mcpServer.server.setRequestHandler(SetLevelRequestSchema, async (req) => {
-    if (levels.includes(req.params.level)) {
-      currentLogLevel = req.params.level;
-    }
-    return {};
-  });
+  if (profile.logging) {
+    mcpServer.server.setRequestHandler(SetLevelRequestSchema, async (req) => {
+      if (levels.includes(req.params.level)) {
+        currentLogLevel = req.params.level;
+      }
+      return {};
+    });
+  }
+  // Without logging the SDK refuses to send log messages at all, so they are dropped instead
   const originalSendLoggingMessage = mcpServer.server.sendLoggingMessage.bind(mcpServer.server);
   mcpServer.server.sendLoggingMessage = async (params) => {
-    if (levels.indexOf(params.level) >= levels.indexOf(currentLogLevel)) {
+    if (profile.logging && levels.indexOf(params.level) >= levels.indexOf(currentLogLevel)) {
       await originalSendLoggingMessage(params);
     }
   };
 
-  // Sample tool
-  mcpServer.tool('get_weather', 'Get weather information', {
-    location: z.string().describe('Location')
-  }, async ({ location }) => ({
-    content: [
-      { type: 'text', text: `Current weather in ${location}:\nTemperature: 72\u00B0F\nConditions: Partly cloudy` }
-    ],
-    isError: false
-  }));
-
-  // Tool used for progress/cancellation tests
-  mcpServer.tool('slow_echo', 'Echo text with delay', {
-    message: z.string(),
-    delay: z.number().default(500)
-  }, async ({ message, delay }, { sendNotification, _meta, signal }) => {
-    const steps = 5;
-    for (let i = 1; i <= steps; i++) {
-      if (signal.aborted) {
-        throw new Error('Cancelled');
-      }
-      await new Promise(r => setTimeout(r, delay / steps));
-      await sendNotification({
-        method: 'notifications/progress',
-        params: { progressToken: _meta?.progressToken ?? 0, progress: i, total: steps, message: `Step ${i}` }
-      });
-    }
-    return { content: [{ type: 'text', text: message }] };
-  });
-
-  // Prompt definition
-  mcpServer.prompt('code_review', 'Code review prompt', {
-    language: completable(z.string(), (v) => ['python', 'pytorch', 'pyside'].filter(s => s.startsWith(v))),
-    code: z.string()
-  }, async ({ language, code }) => ({
-    description: 'Code review prompt',
-    messages: [
-      { role: 'user', content: { type: 'text', text: `Please review this ${language} code:\n${code}` } }
-    ]
-  }));
-
-  // Prompt used for progress/cancellation tests
-  mcpServer.prompt('slow_prompt', 'Slow prompt', {
-    message: z.string()
-  }, async ({ message }, { sendNotification, _meta, signal }) => {
-    const steps = 5;
-    const delay = 500;
-    for (let i = 1; i <= steps; i++) {
-      if (signal.aborted) {
-        throw new Error('Cancelled');
-      }
-      await new Promise(r => setTimeout(r, delay / steps));
-      await sendNotification({
-        method: 'notifications/progress',
-        params: { progressToken: _meta?.progressToken ?? 0, progress: i, total: steps, message: `Step ${i}` }
-      });
-    }
-    return {
-      description: 'Slow prompt',
-      messages: [
-        { role: 'user', content: { type: 'text', text: message } }
-      ]
-    };
-  });
+  // The primary server is connected again for later sessions, which start unsubscribed at the default level
+  const protocolOnclose = mcpServer.server.onclose;
+  mcpServer.server.onclose = () => {
+    subscribedResources.clear();
+    currentLogLevel = 'info';
+    protocolOnclose?.();
+  };
 
-  // Resource setup
-  mcpServer.resource('main-rs', 'file:///project/src/main.rs', { mimeType: 'text/x-rust' }, async () => ({
-    contents: [
-      { uri: 'file:///project/src/main.rs', mimeType: 'text/x-rust', text: 'fn main() {\n    println!("Hello world!");\n}' }
-    ]
-  }));
-
-  // Long running resource used for progress/cancellation tests
-  mcpServer.resource('slow-resource', 'file:///slow/data.txt', { mimeType: 'text/plain' }, async (_uri, { sendNotification, _meta, signal }) => {
-    const steps = 3;
-    for (let i = 1; i <= steps; i++) {
-      if (signal.aborted) {
-        throw new Error('Cancelled');
+  // Resources backed by the store, kept in step with it for as long as the server is open.
+  // Registering and removing resources sends resources/list_changed by itself.
+  const storedResources = new Map<string, RegisteredResource>();
+  const registerStored = ({ uri, name, mimeType }: StoredResource) => {
+    storedResources.set(uri, mcpServer.resource(name, uri, { mimeType }, async () => {
+      const current = store.get(uri);
+      if (!current) {
+        throw new McpError(-32002, 'Resource not found', { uri });
       }
-      await new Promise(r => setTimeout(r, 1000));
-      await sendNotification({
-        method: 'notifications/progress',
-        params: { progressToken: _meta?.progressToken ?? 0, progress: i, total: steps, message: `Step ${i}` }
-      });
+      return { contents: [{ uri, mimeType: current.mimeType, text: current.text }] };
+    }));
+  };
+  store.list().forEach(registerStored);
+  const unsubscribeStore = store.subscribe(({ type, resource }) => {
+    if (type === 'created') {
+      registerStored(resource);
+    } else if (type === 'deleted') {
+      storedResources.get(resource.uri)?.remove();
+      storedResources.delete(resource.uri);
+    } else if (mcpServer.isConnected()) {
+      mcpServer.server.sendResourceUpdated({ uri: resource.uri }).catch(() => { /* session went away */ });
     }
-    return { contents: [{ uri: 'file:///slow/data.txt', mimeType: 'text/plain', text: 'slow resource' }] };
   });
+  const originalClose = mcpServer.close.bind(mcpServer);
+  mcpServer.close = async () => {
+    unsubscribeStore();
+    await originalClose();
+  };
 
-  // Resource template setup
-  const httpTemplate = new ResourceTemplate('http://example.com/{+path}', {
-    list: undefined
-  });
-  mcpServer.resource('file-template', httpTemplate, { mimeType: 'application/octet-stream' }, async (_uri, vars, { sendNotification, _meta, signal }) => {
-    if (vars.path === 'project/src/main.rs') {
-      return {
-        contents: [
-          { uri: 'http://example.com/project/src/main.rs', mimeType: 'text/x-rust', text: 'fn main() {\n    println!("Hello world!");\n}' }
+  // Behaviour the fixture spec refers to by name, for what data cannot express
+  const timeZones = Intl.supportedValuesOf('timeZone');
+  const regions = [...new Set(timeZones.map(zone => zone.split('/')[0]))];
+  const text = (value: unknown) => ({ content: [{ type: 'text', text: JSON.stringify(value) }] });
+  const builtins: FixtureBuiltins = {
+    assets: {
+      pixelPng: PIXEL_PNG.toString('base64'),
+      beepWav: BEEP_WAV.toString('base64'),
+      allBytes: ALL_BYTES.toString('base64')
+    },
+    completers: {
+      timeZones: (v) => timeZones.filter(zone => zone.startsWith(v)),
+      timeZoneRegions: (v) => regions.filter(r => r.startsWith(v))
+    },
+    handlers: {
+      blob_digest: async ({ data }) => {
+        const bytes = Buffer.from(data, 'base64');
+        return text({ bytes: bytes.length, sha256: createHash('sha256').update(bytes).digest('hex') });
+      },
+      embed_resource: async ({ uri }) => {
+        const resource = store.get(uri);
+        if (!resource) {
+          throw new McpError(-32002, 'Resource not found', { uri });
+        }
+        return { content: [{ type: 'resource', resource: { uri, mimeType: resource.mimeType, text: resource.text } }] };
+      },
+      weather_report: async ({ location }) => ({
+        content: [
+          { type: 'text', text: `Weather report for ${location}` },
+          { type: 'image', data: PIXEL_PNG.toString('base64'), mimeType: 'image/png' },
+          { type: 'audio', data: BEEP_WAV.toString('base64'), mimeType: 'audio/wav' },
+          {
+            type: 'resource',
+            resource: {
+              uri: `weather://${encodeURIComponent(location)}/today`,
+              mimeType: 'application/json',
+              text: JSON.stringify({ location, temperature: 72, conditions: 'Partly cloudy' })
+            }
+          }
         ]
-      };
-    }
-    if (vars.path === 'slow/data.txt') {
-      const steps = 3;
-      for (let i = 1; i <= steps; i++) {
-        if (signal.aborted) {
-          throw new Error('Cancelled');
+      }),
+      // Asks the calling client's model for the summary in the middle of the call. The nested
+      // request goes out through the session that made the call, its progress is reported as
+      // the tool's own, and cancelling the tools/call cancels it too.
+      summarize: async ({ text, maxTokens }, { sendRequest, sendNotification, _meta, signal }) => {
+        const progressToken = _meta?.progressToken;
+        let forwarded = Promise.resolve();
+        const onprogress = progressToken === undefined ? undefined : (progress: Progress) => {
+          // Progress can trail the sampling response, so late notifications are allowed to fail
+          forwarded = forwarded
+            .then(() => sendNotification({ method: 'notifications/progress', params: { ...progress, progressToken } }))
+            .catch(() => {});
+        };
+        try {
+          const result = await sendRequest({
+            method: 'sampling/createMessage',
+            params: {
+              messages: [{ role: 'user', content: { type: 'text', text: `Summarize the following text:\n\n${text}` } }],
+              maxTokens
+            }
+          }, CreateMessageResultSchema, { signal, onprogress });
+          await forwarded;
+          return { content: [result.content] };
+        } catch (e) {
+          if (signal.aborted) throw e;
+          return { content: [{ type: 'text', text: `Sampling failed: ${e instanceof Error ? e.message : String(e)}` }], isError: true };
+        }
+      },
+      // Tokens are only checked on the HTTP transports; elsewhere calls carry none
+      whoami: async (_, { authInfo }) => text(authInfo
+        ? { token: authInfo.token, clientId: authInfo.clientId, scopes: authInfo.scopes, expiresAt: authInfo.expiresAt }
+        : { anonymous: true }),
+      create_resource: async (entry) => {
+        const { uri, version } = store.create(entry as NewResource);
+        return text({ uri, version });
+      },
+      update_resource: async ({ uri, text: body, expectedVersion }) => {
+        const { version } = store.update(uri, body, expectedVersion);
+        return text({ uri, version });
+      },
+      delete_resource: async ({ uri }) => {
+        store.delete(uri);
+        return text({ uri });
+      },
+      // http://example.com/binary/<size>.bin: a repeatable pseudo-random payload
+      pattern_blob: async ({ path, uri }) => {
+        const pattern = /^binary\/(\d+)\.bin$/.exec(path);
+        if (pattern && Number(pattern[1]) <= MAX_PATTERN_SIZE) {
+          return { contents: [{ uri, mimeType: 'application/octet-stream', blob: patternBytes(Number(pattern[1])).toString('base64') }] };
         }
-        await new Promise(r => setTimeout(r, 1000));
-        await sendNotification({
-          method: 'notifications/progress',
-          params: { progressToken: _meta?.progressToken ?? 0, progress: i, total: steps, message: `Step ${i}` }
-        });
+        throw new McpError(-32002, 'Resource not found', { uri });
       }
-      return { contents: [{ uri: 'http://example.com/slow/data.txt', mimeType: 'text/plain', text: 'slow resource' }] };
     }
-    throw new McpError(-32002, 'Resource not found', { uri: _uri.toString() });
-  });
+  };
 
+  registerFixtures(mcpServer, options.fixtures ?? defaultFixtures(), builtins);
+
+  const roots = trackRoots(mcpServer);
+  if (options.files) {
+    registerFileResources(mcpServer, roots);
+  }
 
   // Override read handler to return -32002 when resource not found
   const origReadHandler = (mcpServer.server as any)._requestHandlers.get('resources/read');
@@ -222,28 +350,274 @@ export function startServer(port: number = 8080) {
     }
   );
 
+  // completable() callbacks only see the value being typed, so arguments that depend on
+  // another one read context.arguments here before falling back to the SDK's handler.
+  // The SDK only installs that handler for fixture specs with something to complete.
+  const origCompleteHandler = (mcpServer.server as any)._requestHandlers.get('completion/complete');
+  mcpServer.server.removeRequestHandler('completion/complete');
+  if (origCompleteHandler && profile.completions) {
+    mcpServer.server.setRequestHandler(
+      CompleteRequestSchema,
+      async (request: any, extra: any) => {
+        const { ref, argument, context } = request.params;
+        const region = context?.arguments?.region;
+        if (ref.type === 'ref/prompt' && ref.name === 'schedule_meeting' && argument.name === 'timezone' && region) {
+          const values = timeZones.filter(zone => zone.startsWith(`${region}/`)
+            && (zone.startsWith(argument.value) || zone.slice(region.length + 1).startsWith(argument.value)));
+          return { completion: { values: values.slice(0, 100), total: values.length, hasMore: values.length > 100 } };
+        }
+        return origCompleteHandler(request, extra);
+      }
+    );
+  }
+
+  // Page every list; tools, prompts and resources registered later are paged too
+  paginate(mcpServer, options.pagination);
+
+  // Speak only the configured protocol versions, and only the features of the one each session agrees on
+  negotiateVersion(mcpServer, options.protocolVersions);
+
+  return mcpServer;
+}
+
+export interface StartServerOptions {
+  /** Transport clients use to reach this server; defaults to MCP_TRANSPORT (see shared/endpoint.ts). */
+  transport?: TransportKind;
+  /** Where both directions of traffic are traced; defaults to the shared sink flushed per test. */
+  trace?: TraceSink;
+  /** Also serve the files under each client's roots as `file:///{+path}` resources (see server/files.ts). */
+  files?: boolean;
+  /** Largest JSON body the HTTP routes accept, in express.json() notation. Its own default is only 100kb. */
+  bodyLimit?: string | number;
+  /** Page size and cursor lifetime of the list methods (see server/pagination.ts). */
+  pagination?: PaginationOptions;
+  /**
+   * Fixture specs to serve instead of server/fixtures.yaml: JSON or YAML files, or spec
+   * objects, merged in order (see server/fixtures.ts). Include DEFAULT_FIXTURES to extend it.
+   */
+  fixtures?: string | FixtureSpec | (string | FixtureSpec)[];
+  /**
+   * Protocol versions the server accepts, newest first; any other request gets the first
+   * (see server/versions.ts). Defaults to every version the SDK supports.
+   */
+  protocolVersions?: string[];
+  /** Optional capabilities to leave out; all of them are declared by default. */
+  capabilities?: ServerCapabilityProfile;
+  /**
+   * Check requests the server sends against the client's capabilities before they go out,
+   * the SDK's `enforceStrictCapabilities`; otherwise the client answers Method not found.
+   */
+  strictCapabilities?: boolean;
+  /**
+   * Require bearer tokens on `/sse`, `/messages`, `/mcp` and `/ws`: static ones, tokens from
+   * a mock OAuth authorization server on the same port, or both (see server/auth.ts).
+   */
+  auth?: AuthOptions;
+  /**
+   * Let clients resume a dropped event stream: SSE and Streamable HTTP events get IDs and a
+   * GET with `Last-Event-ID` is sent the events after it. SSE sessions then outlive their
+   * stream for `window` ms, so a closed client's session lingers that long too (see server/resumption.ts).
+   */
+  resumption?: boolean | ResumptionOptions;
+  /**
+   * Faults to inject between the wire and each session's server, which applies the plan
+   * on its own; the returned `faults.injected` lists what every session applied.
+   */
+  faults?: FaultPlan;
+}
+
+/**
+ * Starts the fixture server for the selected transport. SSE, Streamable HTTP and
+ * WebSocket share one listener on `port`; memory links each client straight to the server without a
+ * socket; stdio leaves serving to a spawned server/stdio.ts, so `mcpServer` is
+ * never connected and `serverReceived` is fed by the client.
+ *
+ * Each session is served by its own McpServer, listed in `servers` by session ID.
+ * `mcpServer` serves whichever session connects while it is free, which is the
+ * first client in a suite; later concurrent sessions get fresh servers. They all
+ * share `store`, the resources the store tools change.
+ *
+ * `ready()` resolves once every open session can take requests from its server: the
+ * server has handled `notifications/initialized`, which createClient only sends and
+ * so cannot wait for, and over Streamable HTTP the client has opened its standalone
+ * stream, which it only does after initialize; a request sent before that is never delivered.
+ */
+export function startServer(port: number = 8080, options: StartServerOptions = {}) {
+  const kind = options.transport ?? transportFromEnv();
+  const app = express();
+  app.use(express.json({ limit: options.bodyLimit ?? '16mb' }));
+  const resumption = options.resumption === true ? {} : options.resumption || undefined;
+  const auth = options.auth && installAuth(app, ['/sse', '/messages', '/mcp'], new URL(`http://localhost:${port}`), options.auth);
+
+  const serverReceived: JSONRPCMessage[] = [];
+  const faults = options.faults && { plan: options.faults, injected: [] as InjectedFault[] };
+  const logging = (inner: InnerServerTransport) => new LoggingServerTransport(inner, serverReceived, options.trace, faults);
+
+  const store = new ResourceStore();
+  const serverOptions = { ...options, fixtures: options.fixtures === undefined ? undefined : loadFixtures(options.fixtures) };
+  const mcpServer = createMcpServer(store, serverOptions);
+
   const transports: Record<string, LoggingServerTransport> = {};
+  const servers: Record<string, McpServer> = {};
 
-  app.get('/sse', async (req: any, res: any) => {
-    const inner = new SSEServerTransport('/messages', res);
-    const transport = new LoggingServerTransport(inner, serverReceived);
+  const track = (transport: LoggingServerTransport, server: McpServer) => {
     transports[transport.sessionId!] = transport;
-    transport.onclose = () => { delete transports[transport.sessionId!]; };
-    await mcpServer.connect(transport);
+    servers[transport.sessionId!] = server;
+  };
+
+  // Settles when each session's server has handled notifications/initialized
+  const initialized = new Map<LoggingServerTransport, Promise<void>>();
+
+  // Connects a new session to mcpServer if it is free, otherwise to a server of its own.
+  // Streamable HTTP sessions only get their ID at initialize and are tracked from there.
+  // McpServer.connect() replaces transport.onclose, so the session cleanup is chained onto its handler.
+  const connectSession = async (transport: LoggingServerTransport) => {
+    const server = mcpServer.isConnected() ? createMcpServer(store, serverOptions) : mcpServer;
+    if (transport.sessionId) track(transport, server);
+    // Hooked for this session only: mcpServer keeps its own handler for the sessions after it
+    initialized.set(transport, new Promise(resolve => {
+      const protocolOninitialized = server.server.oninitialized;
+      server.server.oninitialized = () => {
+        server.server.oninitialized = protocolOninitialized;
+        protocolOninitialized?.();
+        resolve();
+      };
+    }));
+    await server.connect(transport);
+    const protocolOnclose = transport.onclose;
+    transport.onclose = () => {
+      initialized.delete(transport);
+      if (transport.sessionId) {
+        delete transports[transport.sessionId];
+        delete servers[transport.sessionId];
+      }
+      protocolOnclose?.();
+      // A session's own server is not reused, so let go of its store subscription
+      if (server !== mcpServer) {
+        server.close().catch(() => {});
+      }
+    };
+    return server;
+  };
+
+  app.get('/sse', async (req: any, res: any) => {
+    const lastEventId = req.headers['last-event-id'] as string | undefined;
+    if (resumption && lastEventId) {
+      const transport = transports[sessionOfEventId(lastEventId)];
+      if (!transport?.resumable) {
+        res.status(404).send('Session not found');
+        return;
+      }
+      transport.resume(res, lastEventId);
+      return;
+    }
+    const inner = resumption
+      ? new ResumableSSEServerTransport('/messages', res, resumption.window)
+      : new SSEServerTransport('/messages', res);
+    const transport = logging(inner);
+    await connectSession(transport);
   });
 
   app.post('/messages', async (req: any, res: any) => {
     const sessionId = req.query.sessionId as string;
     const transport = transports[sessionId];
-    if (!transport) {
+    if (!transport || transport.kind !== 'sse') {
       res.status(404).send('Session not found');
       return;
     }
     await transport.handlePostMessage(req, res, req.body);
   });
 
-  const server = app.listen(port, () => {
-    console.log(`SSE server listening on port ${port}`);
+  // Streamable HTTP: one endpoint for POST/GET/DELETE, session carried in the mcp-session-id header
+  app.all('/mcp', async (req: any, res: any) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    let transport = sessionId ? transports[sessionId] : undefined;
+    if (sessionId && (!transport || transport.kind !== 'streamable-http')) {
+      res.status(404).json({ jsonrpc: '2.0', error: { code: -32001, message: 'Session not found' }, id: null });
+      return;
+    }
+    if (!transport) {
+      if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+        res.status(400).json({ jsonrpc: '2.0', error: { code: -32000, message: 'Bad Request: No valid session ID provided' }, id: null });
+        return;
+      }
+      const inner = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: resumption && new InMemoryEventStore(resumption.window),
+        onsessioninitialized: () => track(newTransport, server)
+      });
+      const newTransport = logging(inner);
+      const server = await connectSession(newTransport);
+      transport = newTransport;
+    }
+    await transport.handleRequest(req, res, req.body);
   });
-  return { server, mcpServer, serverReceived };
+
+  let endpoint: ServerEndpoint;
+  let server: ReturnType<typeof app.listen> | undefined;
+  if (kind === 'memory') {
+    endpoint = {
+      transport: 'memory',
+      connect: async () => {
+        const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+        serverSide.sessionId = randomUUID();
+        const transport = logging(serverSide);
+        await connectSession(transport);
+        return clientSide;
+      }
+    };
+  } else if (kind === 'stdio') {
+    endpoint = { transport: 'stdio', entry: 'server/stdio.ts', received: serverReceived };
+  } else {
+    const paths = { sse: '/sse', 'streamable-http': '/mcp', websocket: '/ws' };
+    endpoint = { transport: kind, url: `${kind === 'websocket' ? 'ws' : 'http'}://localhost:${port}${paths[kind]}` };
+    server = app.listen(port, () => {
+      console.log(`MCP server listening on port ${port} (SSE: /sse, Streamable HTTP: /mcp, WebSocket: /ws)`);
+    });
+
+    // WebSocket upgrades bypass express routing, so the socket server shares the HTTP listener
+    // and checks tokens itself
+    const wss = new WebSocketServer({
+      server,
+      path: '/ws',
+      verifyClient: auth && ((info, done) => {
+        authorizeUpgrade(auth, info.req).then(authInfo => {
+          (info.req as any).auth = authInfo;
+          done(!!authInfo, 401, 'Unauthorized');
+        }).catch(() => done(false, 401, 'Unauthorized'));
+      })
+    });
+    wss.on('connection', async (socket, req: any) => {
+      const transport = logging(new WebSocketServerTransport(socket, req.auth));
+      await connectSession(transport);
+    });
+  }
+
+  const ready = async () => {
+    await Promise.all(Object.values(transports).map(t => Promise.all([initialized.get(t), t.standaloneStream])));
+  };
+
+  // Sessions that hold the listener open (sockets), have no listener at all (memory) or wait for a client to come back
+  const stop = async () => {
+    await Promise.all(Object.values(transports)
+      .filter(t => t.kind === 'memory' || t.kind === 'websocket' || t.resumable)
+      .map(t => t.close()));
+    if (server) {
+      await new Promise(resolve => server!.close(resolve));
+    }
+  };
+
+  return { server, mcpServer, serverReceived, endpoint, transports, servers, store, auth, faults, ready, stop };
+}
+
+/**
+ * Serves the same fixtures over stdin/stdout. Used by server/stdio.ts when the
+ * server runs as a child process spawned by createClient.
+ */
+export async function startStdioServer() {
+  const serverReceived: JSONRPCMessage[] = [];
+  const mcpServer = createMcpServer();
+  const transport = new LoggingServerTransport(new StdioServerTransport(), serverReceived);
+  await mcpServer.connect(transport);
+  return { mcpServer, serverReceived, transport };
 }
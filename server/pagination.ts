@@ -0,0 +1,90 @@
+import { randomUUID } from 'node:crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError
+} from '@modelcontextprotocol/sdk/types.js';
+
+export interface PaginationOptions {
+  /** Items per page of every list method; defaults to 50. */
+  pageSize?: number;
+  /** Milliseconds a cursor stays valid; defaults to 5 minutes. */
+  cursorTtl?: number;
+}
+
+/** The list methods that are paged, with the result field each one returns. */
+const LIST_METHODS = [
+  { schema: ListToolsRequestSchema, method: 'tools/list', field: 'tools' },
+  { schema: ListPromptsRequestSchema, method: 'prompts/list', field: 'prompts' },
+  { schema: ListResourcesRequestSchema, method: 'resources/list', field: 'resources' },
+  { schema: ListResourceTemplatesRequestSchema, method: 'resources/templates/list', field: 'resourceTemplates' }
+] as const;
+
+interface IssuedCursor {
+  method: string;
+  offset: number;
+  expires: number;
+  /** Names of everything in the list when the cursor was issued. */
+  fingerprint: string;
+}
+
+const fingerprintOf = (items: { name?: string; uri?: string; uriTemplate?: string }[]) =>
+  JSON.stringify(items.map(item => item.uri ?? item.uriTemplate ?? item.name));
+
+/**
+ * Splits the results of the list handlers McpServer registers into pages. The SDK
+ * builds each list from everything registered through tool(), prompt() and
+ * resource(); this asks it for the whole list and returns one slice of it.
+ *
+ * Cursors are random tokens that only this server can resolve. A cursor expires
+ * after `cursorTtl`, or as soon as the list it pages through changes, since its
+ * offset would then skip or repeat items. Unknown and expired cursors are both
+ * rejected with Invalid params (-32602), as the spec asks.
+ *
+ * Must be called after the first tool, prompt and resource are registered: the
+ * SDK installs its list handlers then, and only once.
+ */
+export function paginate(mcpServer: McpServer, options: PaginationOptions = {}) {
+  const pageSize = options.pageSize ?? 50;
+  const cursorTtl = options.cursorTtl ?? 5 * 60 * 1000;
+  const cursors = new Map<string, IssuedCursor>();
+
+  for (const { schema, method, field } of LIST_METHODS) {
+    const origHandler = (mcpServer.server as any)._requestHandlers.get(method);
+    if (!origHandler) continue;
+    mcpServer.server.removeRequestHandler(method);
+    mcpServer.server.setRequestHandler(schema, async (request: any, extra: any) => {
+      const { cursor, ...params } = request.params ?? {};
+      const issued = cursor === undefined ? undefined : cursors.get(cursor);
+      if (cursor !== undefined && (!issued || issued.method !== method)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+      }
+
+      const now = Date.now();
+      cursors.forEach((entry, token) => {
+        if (entry.expires <= now) cursors.delete(token);
+      });
+
+      const result = await origHandler({ ...request, params }, extra);
+      const items: any[] = result[field];
+      const fingerprint = fingerprintOf(items);
+
+      if (issued && (issued.expires <= now || issued.fingerprint !== fingerprint)) {
+        cursors.delete(cursor);
+        throw new McpError(ErrorCode.InvalidParams, `Cursor expired: ${cursor}`);
+      }
+      const offset = issued?.offset ?? 0;
+
+      const page = { ...result, [field]: items.slice(offset, offset + pageSize) };
+      if (offset + pageSize < items.length) {
+        page.nextCursor = randomUUID();
+        cursors.set(page.nextCursor, { method, offset: offset + pageSize, expires: now + cursorTtl, fingerprint });
+      }
+      return page;
+    });
+  }
+}
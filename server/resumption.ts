@@ -0,0 +1,188 @@
+import { randomUUID } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+
+export interface ResumptionOptions {
+  /**
+   * Milliseconds an SSE session whose stream dropped waits for its client to come back,
+   * and that any event is kept for replay after it was sent; defaults to 5000.
+   */
+  window?: number;
+}
+
+/**
+ * The events of one stream, numbered from 1, that a client coming back may have missed.
+ * An event is dropped once a resume shows the client has it, or `window` ms after it was
+ * sent, by when a client that lost it is not expected back.
+ */
+class ReplayBuffer<T> {
+  private events: { event: T; at: number }[] = [];
+  /** Events ever added, which numbers the next one whatever was dropped. */
+  count = 0;
+
+  constructor(private window: number) {}
+
+  add(event: T) {
+    this.expire();
+    this.events.push({ event, at: Date.now() });
+    return ++this.count;
+  }
+
+  /** Drops the events up to `seen`; false when it is not one of ours or events after it are gone. */
+  acknowledge(seen: number) {
+    this.expire();
+    const dropped = this.count - this.events.length;
+    if (!(seen >= dropped && seen <= this.count)) return false;
+    this.events.splice(0, seen - dropped);
+    return true;
+  }
+
+  get(n: number) {
+    return this.events[n - (this.count - this.events.length) - 1]?.event;
+  }
+
+  private expire() {
+    const stale = Date.now() - this.window;
+    const kept = this.events.findIndex(e => e.at > stale);
+    this.events.splice(0, kept < 0 ? this.events.length : kept);
+  }
+}
+
+/** Splits `<stream ID>_<n>` into the stream and the number of events it had then. */
+function parseEventId(eventId: string): [string, number] {
+  const at = eventId.lastIndexOf('_');
+  return [eventId.slice(0, at), Number(eventId.slice(at + 1))];
+}
+
+/** The session an SSE event ID from ResumableSSEServerTransport belongs to. */
+export const sessionOfEventId = (eventId: string) => parseEventId(eventId)[0];
+
+/**
+ * Streamable HTTP's resumability hook: stores the events a session sends, under
+ * the ID `<stream ID>_<n>`, so a GET with `Last-Event-ID` names both the stream to
+ * pick up and where in it. Each is kept until replayed past or `window` ms old.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<string, ReplayBuffer<JSONRPCMessage>>();
+
+  constructor(private window = 5000) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage) {
+    const events = this.streams.get(streamId) ?? new ReplayBuffer(this.window);
+    this.streams.set(streamId, events);
+    return `${streamId}_${events.add(message)}`;
+  }
+
+  async replayEventsAfter(lastEventId: string, { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }) {
+    const [streamId, seen] = parseEventId(lastEventId);
+    const events = this.streams.get(streamId);
+    if (!events?.acknowledge(seen)) {
+      throw new Error(`Unknown event ID: ${lastEventId}`);
+    }
+    // Events stored while this replays are sent too
+    for (let n = seen + 1; n <= events.count; n++) {
+      const message = events.get(n);
+      if (message) await send(`${streamId}_${n}`, message);
+    }
+    return streamId;
+  }
+}
+
+/**
+ * Server side of the SDK's SSEClientTransport, like the SDK's SSEServerTransport except
+ * that the session outlives its event stream. Every event, the endpoint one included,
+ * has the ID `<session ID>_<n>`. Events are kept for `window` ms, and when the GET drops
+ * the session waits as long for a GET with `Last-Event-ID`, which is sent what it missed
+ * and then carries the stream on. POSTs are accepted meanwhile. If no client
+ * comes back in time, the session closes.
+ */
+export class ResumableSSEServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: AuthInfo }) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  private events: ReplayBuffer<string>;
+  private expiry?: NodeJS.Timeout;
+  private closed = false;
+
+  /** `endpoint` is where clients POST their messages, as for SSEServerTransport. */
+  constructor(private endpoint: string, private res: ServerResponse | undefined, private window = 5000) {
+    this.events = new ReplayBuffer(window);
+  }
+
+  async start() {
+    const res = this.res!;
+    this.res = undefined;
+    this.attach(res);
+    this.write('endpoint', `${encodeURI(this.endpoint)}?sessionId=${this.sessionId}`);
+  }
+
+  /** Sends `res` the events after `lastEventId`, then carries the stream on it. */
+  resume(res: ServerResponse, lastEventId: string) {
+    const [sessionId, seen] = parseEventId(lastEventId);
+    if (sessionId !== this.sessionId || !this.events.acknowledge(seen)) {
+      res.writeHead(404).end('Unknown event ID');
+      return;
+    }
+    this.attach(res);
+    const missed: string[] = [];
+    for (let n = seen + 1; n <= this.events.count; n++) {
+      missed.push(this.events.get(n) ?? '');
+    }
+    if (missed.length > 0) {
+      res.write(missed.join(''));
+    }
+  }
+
+  async handlePostMessage(req: IncomingMessage & { auth?: AuthInfo }, res: ServerResponse, parsedBody?: unknown) {
+    let message: JSONRPCMessage;
+    try {
+      message = JSONRPCMessageSchema.parse(parsedBody);
+    } catch (error) {
+      res.writeHead(400).end(`Invalid message: ${JSON.stringify(parsedBody)}`);
+      this.onerror?.(error as Error);
+      return;
+    }
+    this.onmessage?.(message, { authInfo: req.auth });
+    res.writeHead(202).end('Accepted');
+  }
+
+  async send(message: JSONRPCMessage) {
+    if (this.closed) {
+      throw new Error('Not connected');
+    }
+    this.write('message', JSON.stringify(message));
+  }
+
+  async close() {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.expiry);
+    this.res?.end();
+    this.res = undefined;
+    this.onclose?.();
+  }
+
+  private write(event: string, data: string) {
+    const text = `id: ${this.sessionId}_${this.events.count + 1}\nevent: ${event}\ndata: ${data}\n\n`;
+    this.events.add(text);
+    this.res?.write(text);
+  }
+
+  // A stream that has not noticed its client is gone yet is replaced by the new one
+  private attach(res: ServerResponse) {
+    clearTimeout(this.expiry);
+    const previous = this.res;
+    this.res = res;
+    previous?.end();
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' }).flushHeaders();
+    res.on('close', () => {
+      if (this.res !== res || this.closed) return;
+      this.res = undefined;
+      this.expiry = setTimeout(() => this.close(), this.window);
+    });
+  }
+}
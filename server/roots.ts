@@ -0,0 +1,102 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ListRootsResultSchema,
+  Root,
+  RootsListChangedNotificationSchema,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+
+export type RootsListener = (roots: Root[], previous: Root[] | undefined) => void | Promise<void>;
+
+export interface SessionRoots {
+  /** The client's roots; empty when it has no roots capability. */
+  current(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<Root[]>;
+  /** Calls `listener` after roots were re-fetched on a change; returns a function that stops it. */
+  subscribe(listener: RootsListener): () => void;
+}
+
+/**
+ * Keeps the roots of the client a server is connected to. Each session has its own
+ * server, so this is a per-session cache.
+ *
+ * Roots are fetched with `roots/list` as soon as the client has initialized. Over
+ * Streamable HTTP, which drops server requests sent before the client has opened
+ * its standalone stream, they are fetched instead with the first request that
+ * needs them, on that request's own stream. On `notifications/roots/list_changed` they are fetched
+ * again, the new list is logged and subscribers are told. A client without the `roots`
+ * capability is never sent `roots/list`. A client that declares
+ * `roots` without `listChanged` never says when they change, so for it nothing is
+ * cached and every request asks again.
+ */
+export function trackRoots(mcpServer: McpServer): SessionRoots {
+  let cached: Promise<Root[]> | undefined;
+  const listeners = new Set<RootsListener>();
+
+  const fetchRoots = (request: () => Promise<{ roots: Root[] }>) => {
+    const pending = request().then(({ roots }) => roots);
+    cached = pending;
+    // A failed fetch is retried by the next request
+    pending.catch(() => {
+      if (cached === pending) cached = undefined;
+    });
+    return pending;
+  };
+
+  const log = (level: 'info' | 'warning', data: unknown) =>
+    mcpServer.server.sendLoggingMessage({ level, logger: 'roots', data }).catch(() => { /* session went away */ });
+
+  // A fetch still waiting when the session closes would otherwise keep its request timeout running.
+  // The primary server is connected again for later sessions, which start with no roots known.
+  let closed = new AbortController();
+  const protocolOnclose = mcpServer.server.onclose;
+  mcpServer.server.onclose = () => {
+    closed.abort('Session closed');
+    closed = new AbortController();
+    cached = undefined;
+    protocolOnclose?.();
+  };
+
+  const protocolOninitialized = mcpServer.server.oninitialized;
+  mcpServer.server.oninitialized = () => {
+    protocolOninitialized?.();
+    const transport = mcpServer.server.transport as { kind?: string } | undefined;
+    if (mcpServer.server.getClientCapabilities()?.roots?.listChanged && transport?.kind !== 'streamable-http') {
+      fetchRoots(() => mcpServer.server.listRoots(undefined, { signal: closed.signal }))
+        .catch(() => { /* asked again by the first request that needs them */ });
+    }
+  };
+
+  mcpServer.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    // Only a client that declared roots is asked for them, whatever it announces
+    if (!mcpServer.server.getClientCapabilities()?.roots) return;
+    const previous = await cached?.catch(() => undefined);
+    let roots: Root[];
+    try {
+      roots = await fetchRoots(() => mcpServer.server.listRoots(undefined, { signal: closed.signal }));
+    } catch (e) {
+      await log('warning', { msg: 'Roots could not be fetched', error: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+    await log('info', { msg: 'Roots changed', roots: roots.map(root => root.uri) });
+    for (const listener of listeners) {
+      await listener(roots, previous);
+    }
+  });
+
+  return {
+    current: (extra) => {
+      const capability = mcpServer.server.getClientCapabilities()?.roots;
+      if (!capability) {
+        return Promise.resolve([]);
+      }
+      const request = () => extra.sendRequest({ method: 'roots/list' }, ListRootsResultSchema);
+      return capability.listChanged ? cached ?? fetchRoots(request) : request().then(({ roots }) => roots);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+}
@@ -0,0 +1,6 @@
+import { startStdioServer } from './index';
+
+startStdioServer().catch((error) => {
+  console.error('Failed to start stdio server:', error);
+  process.exit(1);
+});
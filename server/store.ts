@@ -0,0 +1,91 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export interface StoredResource {
+  uri: string;
+  name: string;
+  mimeType: string;
+  text: string;
+  /** Starts at 1 and goes up by one with every update. */
+  version: number;
+}
+
+export interface ResourceChange {
+  type: 'created' | 'updated' | 'deleted';
+  resource: StoredResource;
+}
+
+export type NewResource = Omit<StoredResource, 'version'>;
+
+/** Resources every fixture server starts with. */
+export const DEFAULT_RESOURCES: NewResource[] = [
+  { uri: 'file:///project/src/main.rs', name: 'main-rs', mimeType: 'text/x-rust', text: 'fn main() {\n    println!("Hello world!");\n}' }
+];
+
+/**
+ * Text resources that tools can create, update and delete while the server runs.
+ * One store is shared by every session of a startServer, so a change made through
+ * one session reaches subscribers on the others.
+ */
+export class ResourceStore {
+  private entries = new Map<string, StoredResource>();
+  private listeners = new Set<(change: ResourceChange) => void>();
+
+  constructor(seed: NewResource[] = DEFAULT_RESOURCES) {
+    seed.forEach(entry => this.entries.set(entry.uri, { ...entry, version: 1 }));
+  }
+
+  list(): StoredResource[] {
+    return [...this.entries.values()];
+  }
+
+  get(uri: string): StoredResource | undefined {
+    return this.entries.get(uri);
+  }
+
+  create(entry: NewResource): StoredResource {
+    if (this.entries.has(entry.uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource already exists: ${entry.uri}`);
+    }
+    const resource = { ...entry, version: 1 };
+    this.entries.set(entry.uri, resource);
+    this.emit({ type: 'created', resource });
+    return resource;
+  }
+
+  /** Replaces the text; with `expectedVersion`, only if nobody changed it since that version. */
+  update(uri: string, text: string, expectedVersion?: number): StoredResource {
+    const current = this.require(uri);
+    if (expectedVersion !== undefined && expectedVersion !== current.version) {
+      throw new McpError(ErrorCode.InvalidParams, `Version mismatch for ${uri}: expected ${expectedVersion}, found ${current.version}`);
+    }
+    const resource = { ...current, text, version: current.version + 1 };
+    this.entries.set(uri, resource);
+    this.emit({ type: 'updated', resource });
+    return resource;
+  }
+
+  delete(uri: string): StoredResource {
+    const resource = this.require(uri);
+    this.entries.delete(uri);
+    this.emit({ type: 'deleted', resource });
+    return resource;
+  }
+
+  /** Calls `listener` after every change; returns a function that stops it. */
+  subscribe(listener: (change: ResourceChange) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private require(uri: string) {
+    const resource = this.entries.get(uri);
+    if (!resource) {
+      throw new McpError(-32002, 'Resource not found', { uri });
+    }
+    return resource;
+  }
+
+  private emit(change: ResourceChange) {
+    this.listeners.forEach(listener => listener(change));
+  }
+}
@@ -0,0 +1,94 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  InitializeRequestSchema,
+  JSONRPCMessage,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from '@modelcontextprotocol/sdk/types.js';
+
+/** What changed between the protocol versions this server can speak. */
+export interface VersionFeatures {
+  /** The `completions` capability; older servers answer completion/complete without declaring it. */
+  completionsCapability: boolean;
+  /** `audio` content items in tool results. */
+  audioContent: boolean;
+  /** `message` on progress notifications. */
+  progressMessage: boolean;
+}
+
+const ALL_FEATURES: VersionFeatures = { completionsCapability: true, audioContent: true, progressMessage: true };
+const NO_FEATURES: VersionFeatures = { completionsCapability: false, audioContent: false, progressMessage: false };
+
+/** Features by the revision that introduced them, newest first. */
+export const VERSION_FEATURES: Record<string, VersionFeatures> = {
+  '2025-03-26': ALL_FEATURES,
+  '2024-11-05': NO_FEATURES,
+  '2024-10-07': NO_FEATURES
+};
+
+/**
+ * The features of `version`. Versions are dates, so one this table does not know
+ * gets the features of the newest revision before it.
+ */
+export function featuresOf(version: string): VersionFeatures {
+  const known = Object.keys(VERSION_FEATURES).find(revision => revision <= version);
+  return VERSION_FEATURES[known ?? '2024-10-07'];
+}
+
+/** Rewrites what the server sends so that a client speaking `version` can read it. */
+function downgrade(message: JSONRPCMessage, version: string): JSONRPCMessage {
+  const features = featuresOf(version);
+  if ('method' in message && message.method === 'notifications/progress' && !features.progressMessage) {
+    const { message: _, ...params } = message.params as Record<string, unknown>;
+    return { ...message, params };
+  }
+  if ('result' in message && Array.isArray(message.result.content) && !features.audioContent) {
+    const content = message.result.content.map((item: any) => item.type === 'audio'
+      ? { type: 'text', text: `${item.mimeType} audio omitted: protocol version ${version} has no audio content` }
+      : item);
+    return { ...message, result: { ...message.result, content } };
+  }
+  return message;
+}
+
+/**
+ * Limits the server to `supported` protocol versions, newest first; the SDK's own
+ * list by default. A client asking for one of them gets it, any other gets the
+ * newest, as the spec asks, and must disconnect if it cannot speak that.
+ *
+ * Whatever the session settles on, the server then behaves like a server of that
+ * version: the initialize result declares the capabilities the version has, and
+ * messages are rewritten to leave out what it cannot carry (see VERSION_FEATURES).
+ * Each connection negotiates again, since the primary server is reused.
+ */
+export function negotiateVersion(mcpServer: McpServer, supported: readonly string[] = SUPPORTED_PROTOCOL_VERSIONS) {
+  if (supported.length === 0) {
+    throw new Error('A server needs at least one protocol version');
+  }
+  let negotiated: string | undefined;
+
+  const origInitHandler = (mcpServer.server as any)._requestHandlers.get('initialize');
+  mcpServer.server.removeRequestHandler('initialize');
+  mcpServer.server.setRequestHandler(InitializeRequestSchema, async (request: any, extra: any) => {
+    const requested = request.params.protocolVersion;
+    const protocolVersion = supported.includes(requested) ? requested : supported[0];
+    const result = await origInitHandler(request, extra);
+    // The SDK answers completion/complete without ever declaring `completions`
+    const { completions, ...capabilities } = result.capabilities;
+    const completable = (mcpServer.server as any)._requestHandlers.has('completion/complete');
+    negotiated = protocolVersion;
+    return {
+      ...result,
+      protocolVersion,
+      capabilities: completable && featuresOf(protocolVersion).completionsCapability ? { ...capabilities, completions: completions ?? {} } : capabilities
+    };
+  });
+
+  const connect = mcpServer.server.connect.bind(mcpServer.server);
+  mcpServer.server.connect = async (transport: Transport) => {
+    negotiated = undefined;
+    const send = transport.send.bind(transport);
+    transport.send = (message, options) => send(negotiated ? downgrade(message, negotiated) : message, options);
+    await connect(transport);
+  };
+}
@@ -0,0 +1,47 @@
+import { randomUUID } from 'node:crypto';
+import WebSocket from 'ws';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+/**
+ * Server side of the SDK's WebSocketClientTransport: one JSON-RPC message per text
+ * frame over an already accepted socket. The SDK ships no server counterpart.
+ */
+export class WebSocketServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: AuthInfo }) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+
+  /** `authInfo` is the token the upgrade request was authorized with, passed on with every message. */
+  constructor(private socket: WebSocket, private authInfo?: AuthInfo) {}
+
+  async start() {
+    this.socket.on('message', (data) => {
+      let message: JSONRPCMessage;
+      try {
+        message = JSONRPCMessageSchema.parse(JSON.parse(data.toString()));
+      } catch (error) {
+        this.onerror?.(error as Error);
+        return;
+      }
+      this.onmessage?.(message, { authInfo: this.authInfo });
+    });
+    this.socket.on('error', (error) => this.onerror?.(error));
+    this.socket.on('close', () => this.onclose?.());
+  }
+
+  async send(message: JSONRPCMessage) {
+    if (this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('Not connected');
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.socket.send(JSON.stringify(message), (error) => error ? reject(error) : resolve());
+    });
+  }
+
+  async close() {
+    this.socket.close();
+  }
+}
@@ -0,0 +1,178 @@
+import {
+  JSONRPCMessage,
+  RequestId,
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse
+} from '@modelcontextprotocol/sdk/types.js';
+import { TraceRecord } from './trace';
+
+export type ConformanceRule =
+  | 'duplicate-request-id'
+  | 'request-before-initialize'
+  | 'response-after-cancel'
+  | 'progress-token-unknown'
+  | 'progress-not-increasing'
+  | 'capability-not-negotiated';
+
+export interface Violation {
+  rule: ConformanceRule;
+  sessionId?: string;
+  detail: string;
+  message: JSONRPCMessage;
+}
+
+type Party = 'client' | 'server';
+
+/** Capability a party must have declared before sending each notification. */
+const NOTIFICATION_CAPABILITIES: Record<string, { from: Party; path: string[] }> = {
+  'notifications/message': { from: 'server', path: ['logging'] },
+  'notifications/resources/updated': { from: 'server', path: ['resources', 'subscribe'] },
+  'notifications/resources/list_changed': { from: 'server', path: ['resources', 'listChanged'] },
+  'notifications/tools/list_changed': { from: 'server', path: ['tools', 'listChanged'] },
+  'notifications/prompts/list_changed': { from: 'server', path: ['prompts', 'listChanged'] },
+  'notifications/roots/list_changed': { from: 'client', path: ['roots', 'listChanged'] }
+};
+
+// Requests either side may send before the handshake completes
+const PRE_INITIALIZE_REQUESTS = ['initialize', 'ping'];
+
+interface PartyState {
+  requestIds: Set<RequestId>;
+  /** Progress tokens attached to this party's requests, with the last value reported for each. */
+  progress: Map<string | number, number | undefined>;
+  /** The progress token of each of this party's requests that is still waiting for an answer. */
+  progressTokens: Map<RequestId, string | number>;
+  /** IDs of this party's requests that it cancelled. */
+  cancelled: Set<RequestId>;
+  capabilities?: Record<string, any>;
+}
+
+interface SessionState {
+  client: PartyState;
+  server: PartyState;
+  initializeId?: RequestId;
+  /** The server answered initialize. */
+  initializeAnswered: boolean;
+  /** The client sent notifications/initialized. */
+  initializedNotified: boolean;
+}
+
+const newParty = (): PartyState => ({ requestIds: new Set(), progress: new Map(), progressTokens: new Map(), cancelled: new Set() });
+
+/**
+ * Checks sequencing rules across a whole session from trace records. State is kept
+ * per connection, so records can be fed test by test as the trace sink is flushed.
+ *
+ * Server-side records are used where there are any; stdio has no server transport
+ * in this process, so its client-side records stand in.
+ */
+export class ConformanceChecker {
+  private sessions = new Map<string, SessionState>();
+  private allowed = new Set<ConformanceRule>();
+
+  /** Lets a test that violates a rule on purpose pass; cleared by reset(). */
+  allow(...rules: ConformanceRule[]) {
+    rules.forEach(rule => this.allowed.add(rule));
+  }
+
+  /** Forgets per-test allowances; session state is kept. */
+  reset() {
+    this.allowed.clear();
+  }
+
+  check(records: TraceRecord[]): Violation[] {
+    const violations: Violation[] = [];
+    for (const record of records) {
+      if (record.side !== 'server' && record.transport !== 'stdio') continue;
+      const key = record.connection ?? `${record.transport}:${record.sessionId ?? ''}`;
+      let session = this.sessions.get(key);
+      if (!session) {
+        session = { client: newParty(), server: newParty(), initializeAnswered: false, initializedNotified: false };
+        this.sessions.set(key, session);
+      }
+      const from: Party = (record.side === 'server') === (record.direction === 'in') ? 'client' : 'server';
+      const report = (rule: ConformanceRule, detail: string) => {
+        if (!this.allowed.has(rule)) {
+          violations.push({ rule, sessionId: record.sessionId, detail, message: record.message });
+        }
+      };
+      this.observe(session, from, record.message, report);
+    }
+    return violations;
+  }
+
+  private observe(session: SessionState, from: Party, message: JSONRPCMessage, report: (rule: ConformanceRule, detail: string) => void) {
+    const sender = session[from];
+    const peer = session[from === 'client' ? 'server' : 'client'];
+
+    if (isJSONRPCRequest(message)) {
+      if (sender.requestIds.has(message.id)) {
+        report('duplicate-request-id', `${from} reused request ID ${message.id} for ${message.method}`);
+      }
+      sender.requestIds.add(message.id);
+      const ready = from === 'client' ? session.initializeAnswered : session.initializedNotified;
+      if (!ready && !PRE_INITIALIZE_REQUESTS.includes(message.method)) {
+        report('request-before-initialize', `${from} sent ${message.method} before initialization finished`);
+      }
+      if (message.method === 'initialize') {
+        session.initializeId = message.id;
+        session.client.capabilities = (message.params as any)?.capabilities;
+      }
+      const token = message.params?._meta?.progressToken;
+      if (token !== undefined) {
+        sender.progress.set(token, undefined);
+        sender.progressTokens.set(message.id, token);
+      }
+      return;
+    }
+
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      if (peer.cancelled.has(message.id)) {
+        report('response-after-cancel', `${from} answered request ${message.id} after it was cancelled`);
+      }
+      if (from === 'server' && message.id === session.initializeId && isJSONRPCResponse(message)) {
+        session.initializeAnswered = true;
+        session.server.capabilities = (message.result as any).capabilities;
+      }
+      // An answered request's token is retired; progress for it after this is unknown
+      const token = peer.progressTokens.get(message.id);
+      if (token !== undefined) {
+        peer.progressTokens.delete(message.id);
+        peer.progress.delete(token);
+      }
+      return;
+    }
+
+    if (!isJSONRPCNotification(message)) return;
+    const params = message.params as any;
+    if (message.method === 'notifications/initialized' && from === 'client') {
+      session.initializedNotified = true;
+    } else if (message.method === 'notifications/cancelled') {
+      sender.cancelled.add(params.requestId);
+    } else if (message.method === 'notifications/progress') {
+      const token = params.progressToken;
+      if (!peer.progress.has(token)) {
+        report('progress-token-unknown', `${from} reported progress for token ${JSON.stringify(token)}, which no ${from === 'client' ? 'server' : 'client'} request carried`);
+      } else {
+        const last = peer.progress.get(token);
+        if (last !== undefined && params.progress <= last) {
+          report('progress-not-increasing', `progress for token ${JSON.stringify(token)} went from ${last} to ${params.progress}`);
+        }
+        peer.progress.set(token, params.progress);
+      }
+    }
+
+    const required = NOTIFICATION_CAPABILITIES[message.method];
+    if (required && required.from === from) {
+      const declared = required.path.reduce<any>((caps, key) => caps?.[key], sender.capabilities);
+      if (!declared) {
+        report('capability-not-negotiated', `${from} sent ${message.method} without declaring ${required.path.join('.')}`);
+      }
+    }
+  }
+}
+
+/** Checker fed from the shared trace sink by tests/traceSetup.ts. */
+export const conformance = new ConformanceChecker();
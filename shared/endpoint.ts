@@ -0,0 +1,25 @@
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+export type TransportKind = 'sse' | 'streamable-http' | 'websocket' | 'stdio' | 'memory';
+
+export const TRANSPORT_KINDS: TransportKind[] = ['sse', 'streamable-http', 'websocket', 'stdio', 'memory'];
+
+/**
+ * How a client reaches a server started by startServer. Network transports carry a URL,
+ * stdio names the entry point to spawn (plus the array that mirrors what it receives),
+ * and memory hands out the client end of a freshly linked transport pair.
+ */
+export type ServerEndpoint =
+  | { transport: 'sse' | 'streamable-http' | 'websocket'; url: string }
+  | { transport: 'stdio'; entry: string; received: JSONRPCMessage[] }
+  | { transport: 'memory'; connect: () => Promise<Transport> };
+
+/** Transport selected through the MCP_TRANSPORT environment variable, SSE when unset. */
+export function transportFromEnv(): TransportKind {
+  const value = process.env.MCP_TRANSPORT ?? 'sse';
+  if (!TRANSPORT_KINDS.includes(value as TransportKind)) {
+    throw new Error(`Unknown MCP_TRANSPORT '${value}', expected one of: ${TRANSPORT_KINDS.join(', ')}`);
+  }
+  return value as TransportKind;
+}
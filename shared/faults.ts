@@ -0,0 +1,157 @@
+import {
+  JSONRPCMessage,
+  RequestId,
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse
+} from '@modelcontextprotocol/sdk/types.js';
+import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+
+export type FaultAction =
+  | { type: 'pass' }
+  | { type: 'delay'; ms: number }
+  | { type: 'drop' }
+  | { type: 'duplicate' }
+  /** Hold the message back until the next one in the same direction has gone through. */
+  | { type: 'reorder' }
+  /** Deliver a mangled copy; by default one with an invalid `jsonrpc` version. */
+  | { type: 'corrupt'; mutate?: (message: JSONRPCMessage) => unknown }
+  /** Close the connection instead of delivering the message. */
+  | { type: 'close' };
+
+export interface FaultRule {
+  /** `out` is what the wrapped side sends, `in` what it receives; both by default. */
+  direction?: 'in' | 'out';
+  /**
+   * Request or notification method to match. Responses and errors match the method
+   * of the request they answer. Every message matches when omitted.
+   */
+  method?: string | string[];
+  /** Applied to each matching message with `probability` (default 1). */
+  action?: FaultAction;
+  probability?: number;
+  /**
+   * Actions for the 1st, 2nd, … matching message; matches past the end pass
+   * untouched. Takes precedence over `action`.
+   */
+  script?: FaultAction[];
+}
+
+export interface FaultPlan {
+  rules: FaultRule[];
+  /** Source of randomness for `probability`; defaults to Math.random. */
+  random?: () => number;
+}
+
+/** A fault that was applied, in the order they happened. */
+export interface InjectedFault {
+  direction: 'in' | 'out';
+  method?: string;
+  action: FaultAction['type'];
+  message: JSONRPCMessage;
+}
+
+const PASS: FaultAction = { type: 'pass' };
+
+/**
+ * Wraps a transport and applies a fault plan to the messages crossing it. The first
+ * rule that matches a message decides what happens to it. Transports that share an
+ * `injected` list, such as the sessions of one server, report their faults together.
+ */
+export class FaultInjectingTransport implements Transport {
+  private matches = new Map<FaultRule, number>();
+  /** Method of each request in flight, keyed by the direction it travelled. */
+  private methods = { in: new Map<RequestId, string>(), out: new Map<RequestId, string>() };
+  private held = { in: [] as JSONRPCMessage[], out: [] as JSONRPCMessage[] };
+
+  /** `injected` collects the faults applied so far, for assertions. */
+  constructor(private inner: Transport, private plan: FaultPlan, readonly injected: InjectedFault[] = []) {}
+  onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: unknown }) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  get sessionId() { return this.inner.sessionId; }
+
+  async start() {
+    this.inner.onmessage = (m, extra) => {
+      this.apply('in', m, async (message) => this.onmessage?.(message as JSONRPCMessage, extra)).catch((e) => this.onerror?.(e));
+    };
+    this.inner.onclose = () => this.onclose?.();
+    this.inner.onerror = (e) => this.onerror?.(e);
+    await this.inner.start();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions) {
+    await this.apply('out', message, (m) => this.inner.send(m as JSONRPCMessage, options));
+  }
+
+  async close() {
+    await this.inner.close();
+  }
+
+  private methodOf(direction: 'in' | 'out', message: JSONRPCMessage) {
+    if (isJSONRPCRequest(message)) {
+      this.methods[direction].set(message.id, message.method);
+      return message.method;
+    }
+    if (isJSONRPCNotification(message)) {
+      return message.method;
+    }
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      // A response travels the opposite way to its request
+      return this.methods[direction === 'in' ? 'out' : 'in'].get(message.id);
+    }
+    return undefined;
+  }
+
+  private choose(direction: 'in' | 'out', method: string | undefined): FaultAction {
+    const rule = this.plan.rules.find(r =>
+      (!r.direction || r.direction === direction)
+      && (!r.method || (method !== undefined && [r.method].flat().includes(method))));
+    if (!rule) return PASS;
+    const index = this.matches.get(rule) ?? 0;
+    this.matches.set(rule, index + 1);
+    if (rule.script) {
+      return rule.script[index] ?? PASS;
+    }
+    const random = this.plan.random ?? Math.random;
+    return rule.action && random() < (rule.probability ?? 1) ? rule.action : PASS;
+  }
+
+  private async apply(direction: 'in' | 'out', message: JSONRPCMessage, deliver: (message: unknown) => Promise<void>) {
+    const method = this.methodOf(direction, message);
+    const action = this.choose(direction, method);
+    if (action.type !== 'pass') {
+      this.injected.push({ direction, method, action: action.type, message });
+    }
+    const release = async () => {
+      for (const waiting of this.held[direction].splice(0)) {
+        await deliver(waiting);
+      }
+    };
+    switch (action.type) {
+      case 'pass':
+        await deliver(message);
+        return release();
+      case 'delay':
+        await new Promise(r => setTimeout(r, action.ms));
+        await deliver(message);
+        return release();
+      case 'drop':
+        return;
+      case 'duplicate':
+        await deliver(message);
+        await deliver(message);
+        return release();
+      case 'reorder':
+        this.held[direction].push(message);
+        return;
+      case 'corrupt':
+        await deliver(action.mutate ? action.mutate(structuredClone(message)) : { ...message, jsonrpc: '1.0' });
+        return release();
+      case 'close':
+        await this.inner.close();
+        return;
+    }
+  }
+}
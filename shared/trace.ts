@@ -0,0 +1,63 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import {
+  JSONRPCMessage,
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { TransportKind } from './endpoint';
+
+export type MessageType = 'request' | 'response' | 'notification' | 'error';
+
+export interface TraceRecord {
+  timestamp: string;
+  /** Which logging transport saw the message. */
+  side: 'client' | 'server';
+  /** `in` when that side received it, `out` when it sent it. */
+  direction: 'in' | 'out';
+  sessionId?: string;
+  /** One ID per logging transport instance, which tells connections apart where there is no session ID (stdio). */
+  connection?: string;
+  transport: TransportKind;
+  type: MessageType;
+  message: JSONRPCMessage;
+}
+
+export function classifyMessage(message: JSONRPCMessage): MessageType {
+  if (isJSONRPCRequest(message)) return 'request';
+  if (isJSONRPCNotification(message)) return 'notification';
+  if (isJSONRPCError(message)) return 'error';
+  return 'response';
+}
+
+/** Collects trace records from the logging transports until written out as JSONL. */
+export class TraceSink {
+  readonly records: TraceRecord[] = [];
+
+  record({ message, ...entry }: Omit<TraceRecord, 'timestamp' | 'type'>) {
+    this.records.push({ timestamp: new Date().toISOString(), ...entry, type: classifyMessage(message), message });
+  }
+
+  clear() {
+    this.records.splice(0, this.records.length);
+  }
+
+  writeJsonl(file: string) {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, this.records.map(r => JSON.stringify(r)).join('\n') + (this.records.length ? '\n' : ''));
+  }
+}
+
+/** Sink both logging transports write to unless given another; tests/traceSetup.ts flushes it per test. */
+export const defaultTraceSink = new TraceSink();
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Where tests/traceSetup.ts writes the trace of a test: `<suite>/<test>.jsonl` under
+ * `MCP_TRACE_DIR` (default `traces`), the suite named after its test file.
+ */
+export function traceFile(testPath: string, testName: string, root = process.env.MCP_TRACE_DIR ?? 'traces') {
+  return path.join(root, path.basename(testPath, '.test.ts'), `${slug(testName)}.jsonl`);
+}
@@ -0,0 +1,140 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import { transportFromEnv } from '../shared/endpoint';
+import { jest } from '@jest/globals';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+// Tokens travel in HTTP headers, so the suite covers the HTTP transports; tests/websocket.test.ts checks upgrades
+const transport = transportFromEnv();
+const describeHttp = transport === 'sse' || transport === 'streamable-http' ? describe : describe.skip;
+
+const TOKENS = { 'reader-token': ['tools:call'], 'writer-token': ['tools:call', 'resources:write'] };
+
+// The caller as the whoami fixture sees it
+const whoami = async (client: any) => JSON.parse((await client.callTool({ name: 'whoami' })).content[0].text);
+
+describeHttp('Authorization', () => {
+  let stop: () => Promise<void>;
+  let endpoint: any;
+  let auth: any;
+
+  beforeAll(() => {
+    ({ endpoint, auth, stop } = startServer(8103, { transport, auth: { tokens: TOKENS, oauth: true } }));
+  });
+
+  afterAll(async () => {
+    await stop();
+  });
+
+  test('Unauthorized Requests Rejected', async () => {
+    console.log('=== Unauthorized Requests Rejected ===');
+    const missing = await fetch(endpoint.url, { method: transport === 'sse' ? 'GET' : 'POST' });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer error="invalid_token", error_description="Missing Authorization header"');
+    expect(await missing.json()).toEqual({ error: 'invalid_token', error_description: 'Missing Authorization header' });
+
+    const unknown = await fetch(endpoint.url, { method: 'POST', headers: { Authorization: 'Bearer not-a-token' } });
+    expect(unknown.status).toBe(401);
+    expect(await unknown.json()).toEqual({ error: 'invalid_token', error_description: 'Invalid token' });
+
+    // The session endpoints are guarded too, not just the one that opens a session
+    const messages = await fetch(new URL('/messages?sessionId=unknown', endpoint.url), { method: 'POST' });
+    expect(messages.status).toBe(401);
+
+    await expect(createClient(endpoint)).rejects.toThrow();
+    await expect(createClient(endpoint, { auth: { token: 'not-a-token' } })).rejects.toThrow();
+  });
+
+  test('Auth Info Visible to Tools', async () => {
+    console.log('=== Auth Info Visible to Tools ===');
+    const { client, transport: clientTransport } = await createClient(endpoint, { auth: { token: 'reader-token' } });
+    try {
+      expect(await whoami(client)).toEqual({ token: 'reader-token', clientId: 'static', scopes: ['tools:call'] });
+    } finally {
+      await clientTransport.close();
+    }
+
+    const { client: oauthClient, transport: oauthTransport, oauth } = await createClient(endpoint, { auth: { scope: 'tools:call' } });
+    try {
+      const caller = await whoami(oauthClient);
+      expect(caller).toEqual({ token: oauth!.tokens()!.access_token, clientId: expect.any(String), scopes: ['tools:call'], expiresAt: expect.any(Number) });
+      expect(caller.expiresAt).toBeGreaterThan(Date.now() / 1000);
+      expect(auth.issued.authorization_code).toBeGreaterThanOrEqual(1);
+    } finally {
+      await oauthTransport.close();
+    }
+  });
+
+  test('Scope-Restricted Tools', async () => {
+    console.log('=== Scope-Restricted Tools ===');
+    const resource = { uri: 'test://auth/note', name: 'note', text: 'hello' };
+    const reader = await createClient(endpoint, { auth: { token: 'reader-token' } });
+    const writer = await createClient(endpoint, { auth: { scope: 'tools:call resources:write' } });
+    try {
+      // Refused before the tool runs, as a JSON-RPC error rather than an isError result
+      const refused = reader.client.callTool({ name: 'create_resource', arguments: resource });
+      await expect(refused).rejects.toMatchObject({ code: -32600 });
+      await expect(refused).rejects.toThrow('Tool create_resource requires scope resources:write');
+      // Tools without scopes are open to every token
+      expect((await reader.client.callTool({ name: 'get_weather', arguments: { location: 'Oslo' } })).isError).toBe(false);
+
+      expect(await writer.client.callTool({ name: 'create_resource', arguments: resource }))
+        .toEqual({ content: [{ type: 'text', text: JSON.stringify({ uri: resource.uri, version: 1 }) }] });
+      await expect(reader.client.callTool({ name: 'delete_resource', arguments: { uri: resource.uri } }))
+        .rejects.toMatchObject({ code: -32600 });
+      await writer.client.callTool({ name: 'delete_resource', arguments: { uri: resource.uri } });
+    } finally {
+      await reader.transport.close();
+      await writer.transport.close();
+    }
+  });
+
+  test('OAuth Metadata Discovery', async () => {
+    console.log('=== OAuth Metadata Discovery ===');
+    const response = await fetch(new URL('/.well-known/oauth-authorization-server', endpoint.url));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      issuer: 'http://localhost:8103/',
+      authorization_endpoint: 'http://localhost:8103/authorize',
+      token_endpoint: 'http://localhost:8103/token',
+      registration_endpoint: 'http://localhost:8103/register',
+      revocation_endpoint: 'http://localhost:8103/revoke',
+      response_types_supported: ['code'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_post'],
+      revocation_endpoint_auth_methods_supported: ['client_secret_post'],
+      grant_types_supported: ['authorization_code', 'refresh_token']
+    });
+  });
+
+  test('Token Refreshed Mid-Session', async () => {
+    console.log('=== Token Refreshed Mid-Session ===');
+    const shortLived: any = startServer(8104, { transport, auth: { oauth: { tokenTtl: 1000 } } });
+    const { client, transport: clientTransport, oauth } = await createClient(shortLived.endpoint, { auth: {} });
+    try {
+      const first = await whoami(client);
+      expect(first.scopes).toEqual([]);
+      await new Promise(resolve => setTimeout(resolve, 1100));
+
+      // The expired token is refused...
+      const expired = await fetch(shortLived.endpoint.url, { method: 'POST', headers: { Authorization: `Bearer ${first.token}` } });
+      expect(expired.status).toBe(401);
+      expect(await expired.json()).toEqual({ error: 'invalid_token', error_description: 'Token has expired' });
+
+      // ...so the next call is answered 401, refreshes and is sent again in the same session
+      const second = await whoami(client);
+      expect(second.token).not.toBe(first.token);
+      expect(second.token).toBe(oauth!.tokens()!.access_token);
+      expect(second.expiresAt).toBeGreaterThan(first.expiresAt);
+      expect(shortLived.auth.issued).toEqual({ authorization_code: 1, refresh_token: 1 });
+      expect(Object.keys(shortLived.servers)).toHaveLength(1);
+    } finally {
+      await clientTransport.close();
+      await shortLived.stop();
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import { isJSONRPCError, isJSONRPCRequest, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { jest } from '@jest/globals';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+const completion = { ref: { type: 'ref/prompt', name: 'code_review' }, argument: { name: 'language', value: 'py' } };
+const summarize = { name: 'summarize', arguments: { text: 'A long text' } };
+
+describe('Capability profiles', () => {
+  let stop: () => Promise<void>;
+  let endpoint: any;
+  let serverReceived: JSONRPCMessage[];
+  let client: any;
+  let transport: any;
+  const received: JSONRPCMessage[] = [];
+
+  beforeAll(async () => {
+    ({ endpoint, serverReceived, stop } = startServer(8100, { capabilities: { logging: false, subscribe: false, completions: false } }));
+    ({ client, transport } = await createClient(endpoint, { capabilities: { roots: false, sampling: false } }));
+    const origOnmessage = transport.onmessage;
+    transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
+      received.push(m);
+      origOnmessage?.(m, extra);
+    };
+  });
+
+  afterAll(async () => {
+    await transport.close();
+    await stop();
+  });
+
+  beforeEach(() => {
+    received.splice(0, received.length);
+  });
+
+  test('Capability Profiles Declared', async () => {
+    console.log('=== Capability Profiles Declared ===');
+    const init = serverReceived.find(m => isJSONRPCRequest(m) && m.method === 'initialize') as any;
+    expect(init.params.capabilities).toEqual({});
+    expect(client.getServerCapabilities()).toEqual({
+      sampling: {},
+      tools: { listChanged: true },
+      resources: { listChanged: true },
+      prompts: { listChanged: true }
+    });
+  });
+
+  test('Unsupported Methods Return Method Not Found', async () => {
+    console.log('=== Unsupported Methods Return Method Not Found ===');
+    const notFound = { code: -32601, message: 'MCP error -32601: Method not found' };
+    const nextId = (client as any)._requestMessageId;
+    await expect(client.setLoggingLevel('debug')).rejects.toMatchObject(notFound);
+    await expect(client.subscribeResource({ uri: 'file:///project/src/main.rs' })).rejects.toMatchObject(notFound);
+    await expect(client.complete(completion)).rejects.toMatchObject(notFound);
+    const errors = received.filter(m => isJSONRPCError(m));
+    expect(errors).toEqual([nextId, nextId + 1, nextId + 2].map(id => ({ jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } })));
+  });
+
+  test('Client Capability Assertions', async () => {
+    console.log('=== Client Capability Assertions ===');
+    const { client: strict, transport: strictTransport, sent } = await createClient(endpoint, {
+      capabilities: { roots: false },
+      strictCapabilities: true
+    });
+    try {
+      // Checked against the server's capabilities before anything is sent
+      await expect(strict.setLoggingLevel('debug')).rejects.toThrow('Server does not support logging (required for logging/setLevel)');
+      await expect(strict.subscribeResource({ uri: 'file:///project/src/main.rs' }))
+        .rejects.toThrow('Server does not support resource subscriptions (required for resources/subscribe)');
+      await expect(strict.complete(completion as any)).rejects.toThrow('Server does not support completions (required for completion/complete)');
+      // Notifications are always checked against the client's own capabilities
+      await expect(strict.sendRootsListChanged())
+        .rejects.toThrow('Client does not support roots list changed notifications (required for notifications/roots/list_changed)');
+      expect(sent.map((m: any) => m.method)).toEqual(['initialize', 'notifications/initialized']);
+      // What the server declares still goes through
+      expect((await strict.listTools()).tools.length).toBeGreaterThan(0);
+    } finally {
+      await strictTransport.close();
+    }
+  });
+
+  test('Client Methods Return Method Not Found', async () => {
+    console.log('=== Client Methods Return Method Not Found ===');
+    // In memory, so server requests do not depend on the transport delivering them
+    const lenient = startServer(8101, { transport: 'memory' });
+    const { transport: otherTransport, client: other } = await createClient(lenient.endpoint, { capabilities: { roots: false, sampling: false } });
+    try {
+      expect(await other.callTool(summarize)).toEqual({
+        content: [{ type: 'text', text: 'Sampling failed: MCP error -32601: Method not found' }],
+        isError: true
+      });
+      await expect(lenient.mcpServer.server.listRoots()).rejects.toMatchObject({ code: -32601, message: 'MCP error -32601: Method not found' });
+    } finally {
+      await otherTransport.close();
+      await lenient.stop();
+    }
+  });
+
+  test('Server Capability Assertions', async () => {
+    console.log('=== Server Capability Assertions ===');
+    const strict = startServer(8102, { transport: 'memory', strictCapabilities: true });
+    const { transport: otherTransport, client: other, sent } = await createClient(strict.endpoint, { capabilities: { roots: false, sampling: false } });
+    try {
+      expect(await other.callTool(summarize)).toEqual({
+        content: [{ type: 'text', text: 'Sampling failed: Client does not support sampling (required for sampling/createMessage)' }],
+        isError: true
+      });
+      await expect(strict.mcpServer.server.listRoots()).rejects.toThrow('Client does not support listing roots (required for roots/list)');
+      // Neither request reached the client, so it never had to answer
+      expect(sent.some((m: any) => 'id' in m && !('method' in m))).toBe(false);
+    } finally {
+      await otherTransport.close();
+      await strict.stop();
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import { ConformanceChecker } from '../shared/conformance';
+import { TraceRecord, TraceSink } from '../shared/trace';
+import { jest } from '@jest/globals';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+// Server-side view of a session: 'in' came from the client, 'out' went to it
+const fromClient = (message: any): TraceRecord => ({
+  timestamp: new Date().toISOString(), side: 'server', direction: 'in', sessionId: 's1', transport: 'sse', type: 'request', message
+});
+const fromServer = (message: any): TraceRecord => ({ ...fromClient(message), direction: 'out' });
+
+const handshake = (serverCapabilities: object = {}) => [
+  fromClient({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: { roots: { listChanged: true } }, clientInfo: { name: 'c', version: '1' } } }),
+  fromServer({ jsonrpc: '2.0', id: 0, result: { protocolVersion: '2025-03-26', capabilities: serverCapabilities, serverInfo: { name: 's', version: '1' } } }),
+  fromClient({ jsonrpc: '2.0', method: 'notifications/initialized' })
+];
+
+describe('Protocol conformance', () => {
+  let checker: ConformanceChecker;
+
+  beforeEach(() => {
+    checker = new ConformanceChecker();
+  });
+
+  test('Live Session Conforms', async () => {
+    console.log('=== Live Session Conforms ===');
+    const trace = new TraceSink();
+    const { endpoint, stop } = startServer(8090, { transport: 'memory', trace });
+    const { client, transport } = await createClient(endpoint, { trace });
+    try {
+      await client.listTools();
+      await client.callTool({ name: 'slow_echo', arguments: { message: 'checked', delay: 100 } }, undefined, {
+        onprogress: () => { /* progress events logged */ }
+      });
+      await client.setLoggingLevel('info');
+      await client.sendRootsListChanged();
+    } finally {
+      await transport.close();
+      await stop();
+    }
+    expect(trace.records.length).toBeGreaterThan(0);
+    expect(checker.check(trace.records)).toEqual([]);
+  });
+
+  test('Response After Cancel Flagged', () => {
+    console.log('=== Response After Cancel Flagged ===');
+    const violations = checker.check([
+      ...handshake(),
+      fromClient({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'slow_echo', arguments: { message: 'x' } } }),
+      fromClient({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1, reason: 'User aborted' } }),
+      fromServer({ jsonrpc: '2.0', id: 1, result: { content: [] } })
+    ]);
+    expect(violations.map(v => [v.rule, v.sessionId])).toEqual([['response-after-cancel', 's1']]);
+  });
+
+  test('Progress Violations Flagged', () => {
+    console.log('=== Progress Violations Flagged ===');
+    const progress = (progressToken: string | number, value: number) => fromServer({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken, progress: value, total: 3 } });
+    const violations = checker.check([
+      ...handshake(),
+      fromClient({ jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri: 'file:///slow/data.txt', _meta: { progressToken: 1 } } }),
+      progress(1, 1),
+      progress(1, 2),
+      progress(1, 2),
+      progress(0, 1),
+      fromServer({ jsonrpc: '2.0', id: 1, result: { contents: [] } }),
+      progress(1, 3)
+    ]);
+    expect(violations.map(v => v.rule)).toEqual(['progress-not-increasing', 'progress-token-unknown', 'progress-token-unknown']);
+  });
+
+  test('Request Before Initialize Flagged', () => {
+    console.log('=== Request Before Initialize Flagged ===');
+    const [initialize, result, initialized] = handshake();
+    const violations = checker.check([
+      initialize,
+      fromClient({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      fromClient({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+      result,
+      fromServer({ jsonrpc: '2.0', id: 0, method: 'roots/list' }),
+      initialized
+    ]);
+    expect(violations.map(v => v.detail)).toEqual([
+      'client sent tools/list before initialization finished',
+      'server sent roots/list before initialization finished'
+    ]);
+  });
+
+  test('Reused Request ID Flagged', () => {
+    console.log('=== Reused Request ID Flagged ===');
+    const violations = checker.check([
+      ...handshake(),
+      fromClient({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      fromServer({ jsonrpc: '2.0', id: 1, method: 'roots/list' }),
+      fromClient({ jsonrpc: '2.0', id: 1, method: 'prompts/list' })
+    ]);
+    expect(violations.map(v => v.detail)).toEqual(['client reused request ID 1 for prompts/list']);
+  });
+
+  test('Unnegotiated Notifications Flagged', () => {
+    console.log('=== Unnegotiated Notifications Flagged ===');
+    const violations = checker.check([
+      ...handshake({ logging: {}, resources: { subscribe: true } }),
+      fromServer({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'ok' } }),
+      fromServer({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'file:///project/src/main.rs' } }),
+      fromServer({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' }),
+      fromClient({ jsonrpc: '2.0', method: 'notifications/roots/list_changed' })
+    ]);
+    expect(violations.map(v => v.detail)).toEqual(['server sent notifications/tools/list_changed without declaring tools.listChanged']);
+  });
+
+  test('Connections Without Session IDs Kept Apart', () => {
+    console.log('=== Connections Without Session IDs Kept Apart ===');
+    // Two stdio clients, seen from the client side: both number their requests from 0
+    const stdio = (connection: string) => (record: TraceRecord): TraceRecord => ({
+      ...record,
+      side: 'client',
+      direction: record.direction === 'in' ? 'out' : 'in',
+      sessionId: undefined,
+      connection,
+      transport: 'stdio'
+    });
+    const session = [...handshake(), fromClient({ jsonrpc: '2.0', id: 1, method: 'tools/list' })];
+    expect(checker.check([...session.map(stdio('first')), ...session.map(stdio('second'))])).toEqual([]);
+  });
+
+  test('Allowed Rules Skipped', () => {
+    console.log('=== Allowed Rules Skipped ===');
+    checker.allow('duplicate-request-id');
+    const records = [
+      ...handshake(),
+      fromClient({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      fromClient({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    ];
+    expect(checker.check(records)).toEqual([]);
+    checker.reset();
+    expect(checker.check([fromClient({ jsonrpc: '2.0', id: 1, method: 'tools/list' })]).map(v => v.rule)).toEqual(['duplicate-request-id']);
+  });
+});
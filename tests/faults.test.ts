@@ -0,0 +1,141 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import { FaultPlan } from '../shared/faults';
+import { conformance } from '../shared/conformance';
+import { jest } from '@jest/globals';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+describe('Fault injection', () => {
+  let stop: () => Promise<void>;
+  let transports: Record<string, unknown>;
+  let client: any;
+  let transport: any;
+  let faults: any;
+  const errors: Error[] = [];
+
+  const connect = async (plan: FaultPlan) => {
+    ({ client, transport, faults } = await createClient('http://localhost:8091/sse', { transport: 'sse', faults: plan }));
+    client.onerror = (e: Error) => errors.push(e);
+  };
+
+  beforeAll(() => {
+    ({ transports, stop } = startServer(8091, { transport: 'sse' }));
+  });
+
+  afterAll(async () => {
+    await stop();
+  });
+
+  beforeEach(() => {
+    errors.splice(0, errors.length);
+  });
+
+  afterEach(async () => {
+    await transport.close();
+    // The server side must notice before the next test connects over the same McpServer
+    while (Object.keys(transports).length > 0) {
+      await new Promise(r => setTimeout(r, 10));
+    }
+  });
+
+  test('Lost Progress Notification', async () => {
+    console.log('=== Lost Progress Notification ===');
+    await connect({ rules: [{ direction: 'in', method: 'notifications/progress', script: [{ type: 'pass' }, { type: 'drop' }] }] });
+    const progress: number[] = [];
+    const result = await client.callTool({ name: 'slow_echo', arguments: { message: 'lossy', delay: 200 } }, undefined, {
+      onprogress: ({ progress: p }: { progress: number }) => progress.push(p)
+    });
+    // The SDK dispatches notifications a tick after responses, so the last step can lose the race
+    expect(progress.slice(0, 3)).toEqual([1, 3, 4]);
+    expect(result).toEqual({ content: [{ type: 'text', text: 'lossy' }] });
+    expect(faults.injected.map((f: any) => [f.direction, f.method, f.action])).toEqual([['in', 'notifications/progress', 'drop']]);
+  });
+
+  test('Duplicated Tool Call Response', async () => {
+    console.log('=== Duplicated Tool Call Response ===');
+    await connect({ rules: [{ direction: 'in', method: 'tools/call', action: { type: 'duplicate' } }] });
+    const result = await client.callTool({ name: 'get_weather', arguments: { location: 'Paris' } });
+    expect(result.content).toEqual([{ type: 'text', text: 'Current weather in Paris:\nTemperature: 72°F\nConditions: Partly cloudy' }]);
+    // The first copy settles the request; the second is reported and otherwise ignored
+    expect(errors.map(e => e.message)).toEqual([expect.stringMatching(/^Received a response for an unknown message ID/)]);
+    expect((await client.listTools()).tools.length).toBeGreaterThan(0);
+  });
+
+  test('Duplicated Request Reaching the Server', async () => {
+    console.log('=== Duplicated Request Reaching the Server ===');
+    // Injected on the server side, between the wire and the server that handles the call
+    const faulty = startServer(0, { transport: 'memory', faults: { rules: [{ direction: 'in', method: 'tools/call', action: { type: 'duplicate' } }] } });
+    conformance.allow('duplicate-request-id');
+    try {
+      ({ client, transport } = await createClient(faulty.endpoint));
+      client.onerror = (e: Error) => errors.push(e);
+      const result = await client.callTool({ name: 'get_weather', arguments: { location: 'Paris' } });
+      expect(result.content).toEqual([{ type: 'text', text: 'Current weather in Paris:\nTemperature: 72°F\nConditions: Partly cloudy' }]);
+      // The server handles both copies and answers each; the client reports the second answer
+      const calls = faulty.serverReceived.filter((m: any) => m.method === 'tools/call');
+      expect(calls).toHaveLength(2);
+      expect(calls[1]).toEqual(calls[0]);
+      expect(faulty.faults!.injected.map(f => [f.direction, f.method, f.action])).toEqual([['in', 'tools/call', 'duplicate']]);
+      while (errors.length === 0) {
+        await new Promise(r => setTimeout(r, 10));
+      }
+      expect(errors.map(e => e.message)).toEqual([expect.stringMatching(/^Received a response for an unknown message ID/)]);
+    } finally {
+      await transport.close();
+      await faulty.stop();
+    }
+  });
+
+  test('Reordered Progress Notifications', async () => {
+    console.log('=== Reordered Progress Notifications ===');
+    await connect({ rules: [{ direction: 'in', method: 'notifications/progress', script: [{ type: 'reorder' }] }] });
+    const progress: number[] = [];
+    await client.callTool({ name: 'slow_echo', arguments: { message: 'shuffled', delay: 200 } }, undefined, {
+      onprogress: ({ progress: p }: { progress: number }) => progress.push(p)
+    });
+    expect(progress.slice(0, 4)).toEqual([2, 1, 3, 4]);
+  });
+
+  test('Corrupted Response', async () => {
+    console.log('=== Corrupted Response ===');
+    await connect({ rules: [{ direction: 'in', method: 'tools/list', script: [{ type: 'corrupt' }] }] });
+    await expect(client.listTools(undefined, { timeout: 300 })).rejects.toThrow('Request timed out');
+    expect(errors.map(e => e.message)).toEqual([expect.stringMatching(/^Unknown message type/)]);
+    expect((await client.listTools()).tools.length).toBeGreaterThan(0);
+  });
+
+  test('Probabilistic Delays', async () => {
+    console.log('=== Probabilistic Delays ===');
+    const rolls = [0.2, 0.8, 0.2, 0.8];
+    await connect({
+      rules: [{ direction: 'out', method: 'ping', action: { type: 'delay', ms: 50 }, probability: 0.5 }],
+      random: () => rolls.shift() ?? 1
+    });
+    for (let i = 0; i < 4; i++) {
+      await client.ping();
+    }
+    expect(faults.injected.map((f: any) => f.message.id)).toHaveLength(2);
+    expect(faults.injected.every((f: any) => f.method === 'ping' && f.action === 'delay')).toBe(true);
+  });
+
+  test('SSE Stream Dropped During Tool Call', async () => {
+    console.log('=== SSE Stream Dropped During Tool Call ===');
+    await connect({ rules: [{ direction: 'in', method: 'notifications/progress', script: [{ type: 'pass' }, { type: 'close' }] }] });
+    expect(Object.keys(transports)).toHaveLength(1);
+    const progress: number[] = [];
+    const ac = new AbortController();
+    await expect(client.callTool({ name: 'slow_echo', arguments: { message: 'dropped', delay: 500 } }, undefined, {
+      onprogress: ({ progress: p }: { progress: number }) => progress.push(p),
+      signal: ac.signal
+    })).rejects.toThrow('Connection closed');
+    // The SDK leaves the request timeout armed when the connection closes; aborting clears it
+    ac.abort();
+    expect(progress).toEqual([1]);
+    await new Promise(r => setTimeout(r, 100));
+    expect(Object.keys(transports)).toEqual([]);
+  });
+});
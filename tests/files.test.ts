@@ -0,0 +1,200 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import {
+  ResourceListChangedNotificationSchema,
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  JSONRPCMessage
+} from '@modelcontextprotocol/sdk/types.js';
+import { TraceSink } from '../shared/trace';
+import { jest } from '@jest/globals';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+
+describe('Filesystem resources under client roots', () => {
+  let stop: () => Promise<void>;
+  let endpoint: any;
+  let client: any;
+  let transport: any;
+  let setRoots: (roots: { uri: string; name?: string }[]) => Promise<void>;
+  let base: string;
+  let project: string;
+  let other: string;
+  let outside: string;
+  const received: JSONRPCMessage[] = [];
+  const url = (file: string) => pathToFileURL(file).href;
+
+  beforeAll(async () => {
+    base = realpathSync(mkdtempSync(path.join(tmpdir(), 'mcp-roots-')));
+    project = path.join(base, 'project');
+    other = path.join(base, 'other');
+    outside = path.join(base, 'outside');
+    mkdirSync(path.join(project, 'src'), { recursive: true });
+    mkdirSync(other);
+    mkdirSync(outside);
+    writeFileSync(path.join(project, 'README.md'), '# Project\n');
+    writeFileSync(path.join(project, 'src', 'main.rs'), 'fn main() {}\n');
+    writeFileSync(path.join(project, 'logo.png'), PNG_BYTES);
+    writeFileSync(path.join(project, '..notes.txt'), 'dotted');
+    writeFileSync(path.join(other, 'notes.txt'), 'other root');
+    writeFileSync(path.join(outside, 'secret.txt'), 'not exposed');
+    symlinkSync(path.join(outside, 'secret.txt'), path.join(project, 'escape.txt'));
+
+    ({ endpoint, stop } = startServer(8093, { files: true }));
+    ({ client, transport, setRoots } = await createClient(endpoint, { roots: [{ uri: url(project), name: 'Project' }] }));
+    const origOnmessage = transport.onmessage;
+    transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
+      received.push(m);
+      origOnmessage?.(m, extra);
+    };
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {});
+  });
+
+  afterAll(async () => {
+    await transport.close();
+    await stop();
+    rmSync(base, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    received.splice(0, received.length);
+  });
+
+  test('Root Files Listed', async () => {
+    console.log('=== Root Files Listed ===');
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates).toContainEqual({ uriTemplate: 'file:///{+path}', name: 'root-files' });
+    const { resources } = await client.listResources();
+    const files = resources.filter((r: any) => r.uri.startsWith(url(base)));
+    expect(files).toEqual([
+      { uri: url(path.join(project, '..notes.txt')), name: '..notes.txt', mimeType: 'text/plain' },
+      { uri: url(path.join(project, 'README.md')), name: 'README.md', mimeType: 'text/markdown' },
+      { uri: url(path.join(project, 'logo.png')), name: 'logo.png', mimeType: 'image/png' },
+      { uri: url(path.join(project, 'src', 'main.rs')), name: path.join('src', 'main.rs'), mimeType: 'text/x-rust' }
+    ]);
+  });
+
+  test('Root File Reading', async () => {
+    console.log('=== Root File Reading ===');
+    const readme = await client.readResource({ uri: url(path.join(project, 'README.md')) });
+    expect(readme.contents).toEqual([{ uri: url(path.join(project, 'README.md')), mimeType: 'text/markdown', text: '# Project\n' }]);
+    const logo = await client.readResource({ uri: url(path.join(project, 'logo.png')) });
+    expect(logo.contents).toEqual([{ uri: url(path.join(project, 'logo.png')), mimeType: 'image/png', blob: PNG_BYTES.toString('base64') }]);
+    // A name starting with dots is still inside the root
+    const dotted = await client.readResource({ uri: url(path.join(project, '..notes.txt')) });
+    expect(dotted.contents).toEqual([{ uri: url(path.join(project, '..notes.txt')), mimeType: 'text/plain', text: 'dotted' }]);
+    await expect(client.readResource({ uri: url(path.join(project, 'missing.txt')) })).rejects.toThrow('Resource not found');
+  });
+
+  test('Paths Outside Roots Refused', async () => {
+    console.log('=== Paths Outside Roots Refused ===');
+    for (const file of [path.join(outside, 'secret.txt'), path.join(project, 'escape.txt'), path.join(outside, 'missing.txt')]) {
+      const nextId = (client as any)._requestMessageId;
+      await expect(client.readResource({ uri: url(file) })).rejects.toThrow('Access denied');
+      const errorMsg = received.find(m => isJSONRPCError(m) && (m as any).id === nextId);
+      expect(errorMsg).toEqual({ jsonrpc: '2.0', id: nextId, error: { code: -32600, message: `MCP error -32600: Access denied: ${file} is outside the client's roots` } });
+    }
+  });
+
+  test('Roots Change Refreshes Files', async () => {
+    console.log('=== Roots Change Refreshes Files ===');
+    await setRoots([{ uri: url(other), name: 'Other' }]);
+    await new Promise(r => setTimeout(r, 100));
+    const listChanged = received.find(m => isJSONRPCNotification(m) && m.method === 'notifications/resources/list_changed');
+    expect(listChanged).toEqual({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+    const logMsg = received.find(m => isJSONRPCNotification(m) && m.method === 'notifications/message');
+    expect(logMsg).toEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params: { level: 'info', logger: 'roots', data: { msg: 'Roots changed', roots: [url(other)] } }
+    });
+    const { resources } = await client.listResources();
+    expect(resources.filter((r: any) => r.uri.startsWith(url(base)))).toEqual([
+      { uri: url(path.join(other, 'notes.txt')), name: 'notes.txt', mimeType: 'text/plain' }
+    ]);
+    await expect(client.readResource({ uri: url(path.join(project, 'README.md')) })).rejects.toThrow('Access denied');
+  });
+
+  test('Unchanged Roots Keep Resource List', async () => {
+    console.log('=== Unchanged Roots Keep Resource List ===');
+    // A different name and a path that resolves to the same directory expose the same files
+    await setRoots([{ uri: url(path.join(other, '..', 'other')), name: 'Other again' }]);
+    await new Promise(r => setTimeout(r, 100));
+    expect(received.some(m => isJSONRPCNotification(m) && m.method === 'notifications/message')).toBe(true);
+    expect(received.some(m => isJSONRPCNotification(m) && m.method === 'notifications/resources/list_changed')).toBe(false);
+  });
+
+  test('Roots Cached per Session', async () => {
+    console.log('=== Roots Cached per Session ===');
+    const second = await createClient(endpoint, { roots: [{ uri: url(project), name: 'Project' }] });
+    try {
+      const mine = (await client.listResources()).resources.filter((r: any) => r.uri.startsWith(url(base)));
+      const theirs = (await second.client.listResources()).resources.filter((r: any) => r.uri.startsWith(url(base)));
+      expect(mine.map((r: any) => r.name)).toEqual(['notes.txt']);
+      expect(theirs.map((r: any) => r.name)).toEqual(['..notes.txt', 'README.md', 'logo.png', path.join('src', 'main.rs')]);
+
+      // Roots fetched before are reused until the client says they changed
+      await client.listResources();
+      await client.readResource({ uri: url(path.join(other, 'notes.txt')) });
+      expect(received.some(m => isJSONRPCRequest(m) && m.method === 'roots/list')).toBe(false);
+    } finally {
+      await second.transport.close();
+    }
+  });
+
+  test('Roots Without listChanged', async () => {
+    console.log('=== Roots Without listChanged ===');
+    const quiet = await createClient(endpoint, { roots: [{ uri: url(project), name: 'Project' }], rootsListChanged: false });
+    const rootRequests: JSONRPCMessage[] = [];
+    const origOnmessage = quiet.transport.onmessage;
+    quiet.transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
+      if (isJSONRPCRequest(m) && m.method === 'roots/list') rootRequests.push(m);
+      origOnmessage?.(m, extra);
+    };
+    try {
+      const names = async () => (await quiet.client.listResources()).resources
+        .filter((r: any) => r.uri.startsWith(url(base)))
+        .map((r: any) => r.name);
+      expect(await names()).toEqual(['..notes.txt', 'README.md', 'logo.png', path.join('src', 'main.rs')]);
+      expect(await names()).toEqual(['..notes.txt', 'README.md', 'logo.png', path.join('src', 'main.rs')]);
+      // The client never announces changes, so the server asks on every request instead of caching
+      expect(rootRequests).toHaveLength(2);
+
+      await quiet.setRoots([{ uri: url(other), name: 'Other' }]);
+      expect(quiet.sent.some((m: any) => m.method === 'notifications/roots/list_changed')).toBe(false);
+      expect(await names()).toEqual(['notes.txt']);
+      expect(rootRequests).toHaveLength(3);
+    } finally {
+      await quiet.transport.close();
+    }
+  });
+
+  test('Roots Not Asked of Clients Without Them', async () => {
+    console.log('=== Roots Not Asked of Clients Without Them ===');
+    // The client announces a change it never declared it could make, which the conformance
+    // check would flag, so this traffic goes to a trace of its own
+    const trace = new TraceSink();
+    const own = startServer(8111, { files: true, trace });
+    const rootless = await createClient(own.endpoint, { capabilities: { roots: false }, trace });
+    try {
+      await own.ready();
+      await rootless.transport.send({ jsonrpc: '2.0', method: 'notifications/roots/list_changed' });
+      const { resources } = await rootless.client.listResources();
+      expect(resources.filter((r: any) => r.uri.startsWith(url(base)))).toEqual([]);
+      expect(trace.records.filter(r => isJSONRPCRequest(r.message) && r.message.method === 'roots/list')).toEqual([]);
+    } finally {
+      await rootless.transport.close();
+      await own.stop();
+    }
+  });
+});
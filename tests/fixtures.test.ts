@@ -0,0 +1,189 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import { DEFAULT_FIXTURES, loadFixtures } from '../server/fixtures';
+import { isJSONRPCError, isJSONRPCNotification, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { jest } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+describe('Declarative fixture specs', () => {
+  let stop: () => Promise<void>;
+  let client: any;
+  let transport: any;
+  const received: JSONRPCMessage[] = [];
+
+  beforeAll(async () => {
+    let endpoint: any;
+    ({ endpoint, stop } = startServer(8096, { fixtures: 'tests/fixtures/scenario.yaml' }));
+    ({ client, transport } = await createClient(endpoint));
+    const origOnmessage = transport.onmessage;
+    transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
+      received.push(m);
+      origOnmessage?.(m, extra);
+    };
+  });
+
+  afterAll(async () => {
+    await transport.close();
+    await stop();
+  });
+
+  beforeEach(() => {
+    received.splice(0, received.length);
+  });
+
+  test('Fixtures Loaded from YAML Spec', async () => {
+    console.log('=== Fixtures Loaded from YAML Spec ===');
+    const { tools } = await client.listTools();
+    expect(tools.map((t: any) => t.name)).toEqual(['greet', 'countdown', 'flaky_upload']);
+    expect(tools[0]).toEqual({
+      name: 'greet',
+      description: 'Greet someone',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Who to greet' },
+          greeting: { type: 'string', enum: ['hello', 'hi'], default: 'hello' },
+          tags: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['name'],
+        additionalProperties: false,
+        $schema: 'http://json-schema.org/draft-07/schema#'
+      }
+    });
+    const { prompts } = await client.listPrompts();
+    expect(prompts).toEqual([{
+      name: 'translate',
+      arguments: [
+        { name: 'text', required: true },
+        { name: 'language', description: 'Target language', required: true }
+      ]
+    }]);
+    // Stored resources come from the store, not the spec; listed template resources take the template's metadata
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([
+      { uri: 'file:///project/src/main.rs', name: 'main-rs', mimeType: 'text/x-rust' },
+      { uri: 'scenario://status', name: 'status', mimeType: 'application/json' },
+      { uri: 'scenario://users/1', name: 'alice', mimeType: 'text/plain' }
+    ]);
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates).toEqual([{ uriTemplate: 'scenario://users/{id}', name: 'users', mimeType: 'text/plain' }]);
+  });
+
+  test('Templated Fixture Responses', async () => {
+    console.log('=== Templated Fixture Responses ===');
+    expect(await client.callTool({ name: 'greet', arguments: { name: 'Ada' } }))
+      .toEqual({ content: [{ type: 'text', text: 'hello, Ada!' }] });
+    expect(await client.callTool({ name: 'greet', arguments: { name: 'Ada', greeting: 'hi' } }))
+      .toEqual({ content: [{ type: 'text', text: 'hi, Ada!' }] });
+    // The spec's schema is enforced like a hand-written zod schema
+    await expect(client.callTool({ name: 'greet', arguments: { name: 'Ada', greeting: 'hey' } }))
+      .rejects.toMatchObject({ code: -32602 });
+
+    const prompt = await client.getPrompt({ name: 'translate', arguments: { text: 'Good morning', language: 'german' } });
+    expect(prompt).toEqual({ messages: [{ role: 'user', content: { type: 'text', text: 'Translate into german: Good morning' } }] });
+    const completion = await client.complete({ ref: { type: 'ref/prompt', name: 'translate' }, argument: { name: 'language', value: 'ge' } });
+    expect(completion.completion).toEqual({ values: ['german'], total: 1, hasMore: false });
+
+    const status = await client.readResource({ uri: 'scenario://status' });
+    expect(status.contents).toEqual([{ uri: 'scenario://status', mimeType: 'application/json', text: '{"status":"ok"}' }]);
+    const user = await client.readResource({ uri: 'scenario://users/1' });
+    expect(user.contents).toEqual([{ uri: 'scenario://users/1', mimeType: 'text/plain', text: 'alice' }]);
+  });
+
+  test('Simulated Delay with Progress', async () => {
+    console.log('=== Simulated Delay with Progress ===');
+    const progress: any[] = [];
+    const result = await client.callTool({ name: 'countdown', arguments: { from: 4 } }, undefined, {
+      onprogress: (p: any) => progress.push(p)
+    });
+    expect(result).toEqual({ content: [{ type: 'text', text: 'Liftoff' }] });
+    const expected = [1, 2, 3, 4].map(step => ({ progress: step, total: 4, message: `${step} of 4` }));
+    // The last notification can trail the result
+    expect(progress.length).toBeGreaterThanOrEqual(3);
+    expect(progress).toEqual(expected.slice(0, progress.length));
+
+    const started = Date.now();
+    await client.readResource({ uri: 'scenario://status' });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+
+  test('Injected Fixture Errors', async () => {
+    console.log('=== Injected Fixture Errors ===');
+    // Tool failures come back as isError results, whether or not the spec gives a code
+    expect(await client.callTool({ name: 'flaky_upload', arguments: { size: 0 } }))
+      .toEqual({ content: [{ type: 'text', text: 'MCP error -32602: Empty upload' }], isError: true });
+    const progress: any[] = [];
+    expect(await client.callTool({ name: 'flaky_upload', arguments: { size: 10 } }, undefined, { onprogress: (p: any) => progress.push(p) }))
+      .toEqual({ content: [{ type: 'text', text: 'Connection reset' }], isError: true });
+    expect(progress.map(p => p.progress)).toEqual([1, 2].slice(0, progress.length));
+    const progressMsgs = received.filter(m => isJSONRPCNotification(m) && m.method === 'notifications/progress');
+    expect(progressMsgs.length).toBeLessThanOrEqual(2);
+
+    // Resource failures are JSON-RPC errors with the spec's code; the SDK leaves `data` off the wire
+    const nextId = (client as any)._requestMessageId;
+    await expect(client.readResource({ uri: 'scenario://users/2' })).rejects.toMatchObject({ code: -32002 });
+    const errorMsg = received.find(m => isJSONRPCError(m) && (m as any).id === nextId);
+    expect(errorMsg).toEqual({ jsonrpc: '2.0', id: nextId, error: { code: -32002, message: 'MCP error -32002: User not found' } });
+  });
+
+  test('Fixture Specs Merged from JSON', async () => {
+    console.log('=== Fixture Specs Merged from JSON ===');
+    const dir = mkdtempSync(path.join(tmpdir(), 'mcp-fixtures-'));
+    const extra = path.join(dir, 'extra.json');
+    writeFileSync(extra, JSON.stringify({
+      tools: [
+        { name: 'get_weather', description: 'Always sunny', arguments: { location: {} }, result: { content: [{ type: 'text', text: 'Sunny in {{location}}' }] } },
+        { name: 'ping', result: { content: [{ type: 'text', text: 'pong' }] } }
+      ]
+    }));
+    // The defaults are found next to server/fixtures.ts rather than through the working directory
+    expect(DEFAULT_FIXTURES).toBe(path.resolve('server/fixtures.yaml'));
+    const merged = startServer(8097, { transport: 'memory', fixtures: [DEFAULT_FIXTURES, extra] });
+    const { client: other, transport: otherTransport } = await createClient(merged.endpoint);
+    try {
+      const { tools } = await other.listTools();
+      const defaults = loadFixtures().tools!.filter(t => !t.disabled).map(t => t.name);
+      // A fixture of the same name replaces the default one and moves to the end
+      expect(tools.map((t: any) => t.name)).toEqual([...defaults.filter(name => name !== 'get_weather'), 'get_weather', 'ping']);
+      expect(await other.callTool({ name: 'get_weather', arguments: { location: 'Oslo' } }))
+        .toEqual({ content: [{ type: 'text', text: 'Sunny in Oslo' }] });
+      expect(await other.callTool({ name: 'ping' })).toEqual({ content: [{ type: 'text', text: 'pong' }] });
+      expect(tools.find((t: any) => t.name === 'ping')).toEqual({ name: 'ping', inputSchema: { type: 'object' } });
+    } finally {
+      await otherTransport.close();
+      await merged.stop();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('Invalid Fixture Spec Rejected', async () => {
+    console.log('=== Invalid Fixture Spec Rejected ===');
+    expect(() => loadFixtures({ tools: [{ description: 'No name', arguments: { count: { type: 'float' } } }] } as any))
+      .toThrow([
+        'Invalid fixture spec in inline fixture spec:',
+        'tools.0.name: Required',
+        'tools.0.arguments.count.type: Invalid enum value. Expected \'string\' | \'number\' | \'integer\' | \'boolean\' | \'array\' | \'object\', received \'float\''
+      ].join('\n'));
+    expect(() => startServer(8098, { transport: 'memory', fixtures: { tools: [{ name: 'broken', handler: 'missing' }] } }))
+      .toThrow('Fixture broken refers to unknown handler missing');
+    // An error after a step that never comes would let the call succeed
+    expect(() => loadFixtures({
+      tools: [{
+        name: 'fails_late',
+        error: { message: 'Too late', afterStep: 2 },
+        cases: [{ when: { fast: true }, progress: { steps: 3 }, error: { message: 'Too late', afterStep: 4 } }]
+      }]
+    })).toThrow([
+      'Invalid fixture spec in inline fixture spec:',
+      'tools.0.cases.0.error.afterStep: afterStep is past the last of 3 steps',
+      'tools.0.error.afterStep: afterStep needs progress steps to come after'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,167 @@
+import { startServer } from '../server';
+import { createClient, listAll } from '../client';
+import { isJSONRPCError, isJSONRPCRequest, isJSONRPCResponse, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { jest } from '@jest/globals';
+import { z } from 'zod';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+const PAGE_SIZE = 7;
+const CURSOR_TTL = 1000;
+
+describe('Cursor pagination', () => {
+  let stop: () => Promise<void>;
+  let mcpServer: any;
+  let serverReceived: JSONRPCMessage[];
+  let client: any;
+  let transport: any;
+  const received: JSONRPCMessage[] = [];
+
+  beforeAll(async () => {
+    let endpoint: any;
+    ({ mcpServer, serverReceived, endpoint, stop } = startServer(8095, { pagination: { pageSize: PAGE_SIZE, cursorTtl: CURSOR_TTL } }));
+    ({ client, transport } = await createClient(endpoint));
+    const origOnmessage = transport.onmessage;
+    transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
+      received.push(m);
+      origOnmessage?.(m, extra);
+    };
+  });
+
+  afterAll(async () => {
+    await transport.close();
+    await stop();
+  });
+
+  beforeEach(() => {
+    received.splice(0, received.length);
+    serverReceived.splice(0, serverReceived.length);
+  });
+
+  // The list requests the server received from `firstId` on, each with the page it answered
+  const pagesSince = (firstId: number, method: string) => serverReceived
+    .filter(m => isJSONRPCRequest(m) && m.method === method && (m.id as number) >= firstId)
+    .map((request: any) => ({ request, response: received.find(m => isJSONRPCResponse(m) && m.id === request.id) as any }));
+
+  test('Paginated Tool Listing', async () => {
+    console.log('=== Paginated Tool Listing ===');
+    const nextId = (client as any)._requestMessageId;
+    const fixtures = await listAll(client, 'tools');
+    const firstPage = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId) as any;
+    expect(firstPage.result.tools).toEqual(fixtures.slice(0, PAGE_SIZE));
+    expect(firstPage.result.nextCursor).toEqual(expect.any(String));
+
+    const bulkNames = Array.from({ length: 200 }, (_, i) => `bulk_tool_${String(i).padStart(3, '0')}`);
+    bulkNames.forEach((name, i) => mcpServer.tool(name, `Bulk tool ${i}`, { value: z.string() }, async ({ value }: any) => ({
+      content: [{ type: 'text', text: value }]
+    })));
+
+    const walkId = (client as any)._requestMessageId;
+    const tools = await listAll(client, 'tools');
+    expect(tools.map(t => t.name)).toEqual([...fixtures.map(t => t.name), ...bulkNames]);
+    expect(tools[tools.length - 1]).toEqual({
+      name: 'bulk_tool_199',
+      description: 'Bulk tool 199',
+      inputSchema: expect.objectContaining({ type: 'object', properties: { value: { type: 'string' } } })
+    });
+
+    // Every page is full but the last, and each request carries the cursor of the page before it
+    const pages = pagesSince(walkId, 'tools/list');
+    expect(pages).toHaveLength(Math.ceil(tools.length / PAGE_SIZE));
+    pages.forEach(({ request, response }, i) => {
+      expect(request.params?.cursor).toBe(i === 0 ? undefined : pages[i - 1].response.result.nextCursor);
+      const last = i === pages.length - 1;
+      expect(response.result.tools).toHaveLength(last ? tools.length - PAGE_SIZE * i : PAGE_SIZE);
+      expect('nextCursor' in response.result).toBe(!last);
+    });
+  });
+
+  test('Paginated Prompt Listing', async () => {
+    console.log('=== Paginated Prompt Listing ===');
+    const fixtures = await listAll(client, 'prompts');
+    const bulkNames = Array.from({ length: 20 }, (_, i) => `bulk_prompt_${i}`);
+    bulkNames.forEach(name => mcpServer.prompt(name, { topic: z.string() }, async ({ topic }: any) => ({
+      messages: [{ role: 'user', content: { type: 'text', text: topic } }]
+    })));
+
+    const walkId = (client as any)._requestMessageId;
+    const prompts = await listAll(client, 'prompts');
+    expect(prompts.map(p => p.name)).toEqual([...fixtures.map(p => p.name), ...bulkNames]);
+    expect(prompts[prompts.length - 1]).toEqual({ name: 'bulk_prompt_19', arguments: [{ name: 'topic', required: true }] });
+    expect(pagesSince(walkId, 'prompts/list')).toHaveLength(Math.ceil(prompts.length / PAGE_SIZE));
+  });
+
+  test('Paginated Resource and Template Listing', async () => {
+    console.log('=== Paginated Resource and Template Listing ===');
+    const fixtures = await listAll(client, 'resources');
+    const fixtureTemplates = await listAll(client, 'resourceTemplates');
+    expect(fixtures.map(r => r.name)).toEqual(['main-rs', 'slow-resource']);
+    expect(fixtureTemplates.map(t => t.name)).toEqual(['file-template']);
+
+    for (let i = 0; i < 15; i++) {
+      mcpServer.resource(`bulk-${i}`, `file:///bulk/${i}.txt`, async (uri: URL) => ({ contents: [{ uri: uri.href, text: `${i}` }] }));
+      mcpServer.resource(`bulk-template-${i}`, new ResourceTemplate(`bulk://${i}/{id}`, { list: undefined }), async (uri: URL) => ({
+        contents: [{ uri: uri.href, text: `${i}` }]
+      }));
+    }
+
+    const walkId = (client as any)._requestMessageId;
+    const resources = await listAll(client, 'resources');
+    expect(resources.map(r => r.uri)).toEqual([
+      ...fixtures.map(r => r.uri),
+      ...Array.from({ length: 15 }, (_, i) => `file:///bulk/${i}.txt`)
+    ]);
+    expect(pagesSince(walkId, 'resources/list')).toHaveLength(3);
+
+    const templates = await listAll(client, 'resourceTemplates');
+    expect(templates.map(t => t.uriTemplate)).toEqual([
+      'http://example.com/{+path}',
+      ...Array.from({ length: 15 }, (_, i) => `bulk://${i}/{id}`)
+    ]);
+    expect(pagesSince(walkId, 'resources/templates/list')).toHaveLength(3);
+  });
+
+  test('Invalid Pagination Cursor', async () => {
+    console.log('=== Invalid Pagination Cursor ===');
+    const nextId = (client as any)._requestMessageId;
+    await expect(client.listTools({ cursor: 'not-a-cursor' })).rejects.toMatchObject({ code: -32602 });
+    const errorMsg = received.find(m => isJSONRPCError(m) && (m as any).id === nextId);
+    expect(errorMsg).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      error: { code: -32602, message: 'MCP error -32602: Invalid cursor: not-a-cursor' }
+    });
+
+    // A cursor only resolves for the method that issued it
+    const { nextCursor } = await client.listTools();
+    await expect(client.listPrompts({ cursor: nextCursor })).rejects.toThrow(`Invalid cursor: ${nextCursor}`);
+    await expect(client.listTools({ cursor: nextCursor })).resolves.toMatchObject({ tools: expect.any(Array) });
+  });
+
+  test('Expired Pagination Cursor', async () => {
+    console.log('=== Expired Pagination Cursor ===');
+    const { nextCursor: staleByChange } = await client.listTools();
+    const late = mcpServer.tool('late_tool', 'Registered partway through a walk', async () => ({ content: [] }));
+    const nextId = (client as any)._requestMessageId;
+    await expect(client.listTools({ cursor: staleByChange })).rejects.toMatchObject({ code: -32602 });
+    const errorMsg = received.find(m => isJSONRPCError(m) && (m as any).id === nextId);
+    expect(errorMsg).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      error: { code: -32602, message: `MCP error -32602: Cursor expired: ${staleByChange}` }
+    });
+    late.remove();
+
+    const { nextCursor: staleByAge } = await client.listTools();
+    await new Promise(r => setTimeout(r, CURSOR_TTL + 100));
+    await expect(client.listTools({ cursor: staleByAge })).rejects.toThrow(`Cursor expired: ${staleByAge}`);
+
+    // Starting over from the first page works again
+    const tools = await listAll(client, 'tools');
+    expect(tools.map(t => t.name)).not.toContain('late_tool');
+  });
+});
@@ -16,7 +16,8 @@ util.inspect.defaultOptions.depth = null;
 jest.setTimeout(20000);
 
 describe('MCP prompt interactions', () => {
-  let server: any;
+  let stop: () => Promise<void>;
+  let endpoint: any;
   let mcpServer: any;
   let serverReceived: JSONRPCMessage[];
   let client: any;
@@ -24,8 +25,8 @@ describe('MCP prompt interactions', () => {
   const received: JSONRPCMessage[] = [];
 
   beforeAll(async () => {
-    ({ server, mcpServer, serverReceived } = startServer(8083));
-    ({ client, transport } = await createClient('http://localhost:8083/sse'));
+    ({ mcpServer, serverReceived, endpoint, stop } = startServer(8083));
+    ({ client, transport } = await createClient(endpoint));
     const origOnmessage = transport.onmessage;
     transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
       received.push(m);
@@ -36,7 +37,7 @@ describe('MCP prompt interactions', () => {
 
   afterAll(async () => {
     await transport.close();
-    await new Promise(resolve => server.close(resolve));
+    await stop();
   });
 
   beforeEach(() => {
@@ -64,6 +65,14 @@ describe('MCP prompt interactions', () => {
               { name: 'code', required: true }
             ]
           },
+          {
+            name: 'schedule_meeting',
+            description: 'Meeting scheduling prompt',
+            arguments: [
+              { name: 'region', required: true },
+              { name: 'timezone', required: true }
+            ]
+          },
           {
             name: 'slow_prompt',
             description: 'Slow prompt',
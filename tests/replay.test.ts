@@ -0,0 +1,75 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import { GoldenFile, readGolden, recordGolden, replayGolden, writeGolden } from '../client/replay';
+import { TraceSink } from '../shared/trace';
+import { jest } from '@jest/globals';
+import { existsSync } from 'node:fs';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+// Re-record with UPDATE_GOLDEN=1 after an intended behaviour change
+const GOLDEN_FILE = 'tests/golden/basic-session.json';
+
+async function recordSession(): Promise<GoldenFile> {
+  const trace = new TraceSink();
+  const { endpoint, stop } = startServer(0, { transport: 'memory', trace });
+  const { client, transport } = await createClient(endpoint, { trace });
+  await client.listTools();
+  await client.callTool({ name: 'get_weather', arguments: { location: 'New York' } });
+  await client.callTool({ name: 'slow_echo', arguments: { message: 'hello', delay: 100 } }, undefined, {
+    onprogress: () => { /* progress is part of the recording */ }
+  });
+  await client.listPrompts();
+  await client.getPrompt({ name: 'code_review', arguments: { language: 'python', code: 'x = 1' } });
+  await client.complete({ ref: { type: 'ref/prompt', name: 'code_review' }, argument: { name: 'language', value: 'py' } });
+  await client.readResource({ uri: 'file:///project/src/main.rs' });
+  await client.listResourceTemplates();
+  await client.readResource({ uri: 'http://example.com/missing' }).catch(() => { /* error response is recorded */ });
+  await transport.close();
+  await stop();
+  return recordGolden(trace.records, 'Tools, prompts, completion and resources over one session');
+}
+
+describe('Golden file record and replay', () => {
+  let golden: GoldenFile;
+
+  beforeAll(async () => {
+    golden = await recordSession();
+  });
+
+  test('Golden Session Replay', async () => {
+    console.log('=== Golden Session Replay ===');
+    const { endpoint, stop } = startServer(0, { transport: 'memory' });
+    const result = await replayGolden(golden, endpoint);
+    await stop();
+    expect(result.actual.length).toBe(golden.messages.filter(m => m.direction === 'in').length);
+    expect(result.differences).toEqual([]);
+  });
+
+  test('Replay Detects Behaviour Changes', async () => {
+    console.log('=== Replay Detects Behaviour Changes ===');
+    const { endpoint, mcpServer, stop } = startServer(0, { transport: 'memory' });
+    mcpServer.tool('extra', 'Tool missing from the recording', async () => ({ content: [{ type: 'text', text: 'extra' }] }));
+    const result = await replayGolden(golden, endpoint);
+    await stop();
+    expect(result.differences).toHaveLength(1);
+    expect(result.differences[0]).toContain('Tool missing from the recording');
+  });
+
+  test('Committed Golden File', async () => {
+    console.log('=== Committed Golden File ===');
+    if (process.env.UPDATE_GOLDEN) {
+      writeGolden(GOLDEN_FILE, golden);
+    } else if (!existsSync(GOLDEN_FILE)) {
+      // A missing file would otherwise be recorded here and then pass against itself
+      throw new Error(`${GOLDEN_FILE} is missing; record it with UPDATE_GOLDEN=1 npm test and commit it`);
+    }
+    const { endpoint, stop } = startServer(0, { transport: 'memory' });
+    const result = await replayGolden(readGolden(GOLDEN_FILE), endpoint);
+    await stop();
+    expect(result.differences).toEqual([]);
+  });
+});
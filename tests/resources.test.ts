@@ -17,7 +17,8 @@ util.inspect.defaultOptions.depth = null;
 jest.setTimeout(20000);
 
 describe('MCP protocol interactions', () => {
-  let server: any;
+  let stop: () => Promise<void>;
+  let endpoint: any;
   let mcpServer: any;
   let serverReceived: JSONRPCMessage[];
   let client: any;
@@ -25,8 +26,8 @@ describe('MCP protocol interactions', () => {
   const received: JSONRPCMessage[] = [];
 
   beforeAll(async () => {
-    ({ server, mcpServer, serverReceived } = startServer(8080));
-    ({ client, transport } = await createClient('http://localhost:8080/sse'));
+    ({ mcpServer, serverReceived, endpoint, stop } = startServer(8080));
+    ({ client, transport } = await createClient(endpoint));
     const origOnmessage = transport.onmessage;
     transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
       received.push(m);
@@ -38,7 +39,7 @@ describe('MCP protocol interactions', () => {
 
   afterAll(async () => {
     await transport.close();
-    await new Promise(resolve => server.close(resolve));
+    await stop();
   });
 
   beforeEach(() => {
@@ -160,4 +161,64 @@ describe('MCP protocol interactions', () => {
     const progressNotification = received.find(m => isJSONRPCNotification(m) && m.method === 'notifications/progress');
     expect(progressNotification).toEqual({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: progressId, progress: 1, total: 3, message: 'Step 1' } });
   });
+
+  test('Stored Resource Creation', async () => {
+    console.log('=== Stored Resource Creation ===');
+    const result = await client.callTool({ name: 'create_resource', arguments: { uri: 'file:///notes/todo.txt', name: 'todo', text: 'first draft' } });
+    expect(result.content).toEqual([{ type: 'text', text: JSON.stringify({ uri: 'file:///notes/todo.txt', version: 1 }) }]);
+    await new Promise(r => setTimeout(r, 50));
+    const listChanged = received.find(m => isJSONRPCNotification(m) && m.method === 'notifications/resources/list_changed');
+    expect(listChanged).toEqual({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+    const { resources } = await client.listResources();
+    expect(resources).toContainEqual({ uri: 'file:///notes/todo.txt', name: 'todo', mimeType: 'text/plain' });
+  });
+
+  test('Stored Resource Update Notifies Subscribers', async () => {
+    console.log('=== Stored Resource Update Notifies Subscribers ===');
+    await client.subscribeResource({ uri: 'file:///notes/todo.txt' });
+    const result = await client.callTool({ name: 'update_resource', arguments: { uri: 'file:///notes/todo.txt', text: 'second draft', expectedVersion: 1 } });
+    expect(result.content).toEqual([{ type: 'text', text: JSON.stringify({ uri: 'file:///notes/todo.txt', version: 2 }) }]);
+    await new Promise(r => setTimeout(r, 50));
+    const updates = received.filter(m => isJSONRPCNotification(m) && m.method === 'notifications/resources/updated');
+    expect(updates).toEqual([{ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'file:///notes/todo.txt' } }]);
+    const nextId = (client as any)._requestMessageId;
+    await client.readResource({ uri: 'file:///notes/todo.txt' });
+    const readMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(readMsg).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      result: { contents: [{ uri: 'file:///notes/todo.txt', mimeType: 'text/plain', text: 'second draft' }] }
+    });
+
+    await client.unsubscribeResource({ uri: 'file:///notes/todo.txt' });
+    received.splice(0, received.length);
+    await client.callTool({ name: 'update_resource', arguments: { uri: 'file:///notes/todo.txt', text: 'third draft' } });
+    await new Promise(r => setTimeout(r, 50));
+    expect(received.some(m => isJSONRPCNotification(m) && m.method === 'notifications/resources/updated')).toBe(false);
+  });
+
+  test('Stored Resource Version Conflict', async () => {
+    console.log('=== Stored Resource Version Conflict ===');
+    const result = await client.callTool({ name: 'update_resource', arguments: { uri: 'file:///notes/todo.txt', text: 'stale edit', expectedVersion: 1 } });
+    expect(result).toEqual({
+      content: [{ type: 'text', text: 'MCP error -32602: Version mismatch for file:///notes/todo.txt: expected 1, found 3' }],
+      isError: true
+    });
+    const { contents } = await client.readResource({ uri: 'file:///notes/todo.txt' });
+    expect(contents[0].text).toBe('third draft');
+  });
+
+  test('Stored Resource Deletion', async () => {
+    console.log('=== Stored Resource Deletion ===');
+    await client.callTool({ name: 'delete_resource', arguments: { uri: 'file:///notes/todo.txt' } });
+    await new Promise(r => setTimeout(r, 50));
+    const listChanged = received.find(m => isJSONRPCNotification(m) && m.method === 'notifications/resources/list_changed');
+    expect(listChanged).toEqual({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+    const { resources } = await client.listResources();
+    expect(resources.map((r: any) => r.uri)).not.toContain('file:///notes/todo.txt');
+    const nextId = (client as any)._requestMessageId;
+    await expect(client.readResource({ uri: 'file:///notes/todo.txt' })).rejects.toThrow();
+    const errorMsg = received.find(m => isJSONRPCError(m) && (m as any).id === nextId);
+    expect(errorMsg).toEqual({ jsonrpc: '2.0', id: nextId, error: { code: -32002, message: 'MCP error -32002: Resource not found' } });
+  });
 });
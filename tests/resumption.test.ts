@@ -0,0 +1,148 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import { transportFromEnv } from '../shared/endpoint';
+import { TraceSink } from '../shared/trace';
+import { isJSONRPCNotification } from '@modelcontextprotocol/sdk/types.js';
+import { jest } from '@jest/globals';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+// Only event streams can be resumed, so the suite skips the other transports
+const transport = transportFromEnv();
+const describeStreams = transport === 'sse' || transport === 'streamable-http' ? describe : describe.skip;
+const testSse = transport === 'sse' ? test : test.skip;
+
+const reconnect = { initialDelay: 50, maxDelay: 200, growFactor: 2, maxRetries: 3 };
+
+describeStreams('Stream resumption', () => {
+  let stop: () => Promise<void>;
+  let server: any;
+  let endpoint: any;
+  let transports: Record<string, unknown>;
+  let serverReceived: any[];
+
+  beforeAll(() => {
+    ({ server, endpoint, transports, serverReceived, stop } = startServer(8105, { transport, resumption: { window: 2000 } }));
+  });
+
+  afterAll(async () => {
+    await stop();
+  });
+
+  test('Tool Call Resumed After Dropped Stream', async () => {
+    console.log('=== Tool Call Resumed After Dropped Stream ===');
+    const trace = new TraceSink();
+    const { client, transport: clientTransport } = await createClient(endpoint, { reconnect, trace });
+    const sessionId = Object.keys(transports)[0];
+    // Progress is counted from what the client transport received: the SDK dispatches notifications a
+    // tick after responses and drops the request's progress handler with its response, so the last
+    // step may never reach it
+    const progress = () => trace.records.flatMap(({ direction, message: m }) =>
+      direction === 'in' && isJSONRPCNotification(m) && m.method === 'notifications/progress' ? [m.params!.progress as number] : []);
+    try {
+      // Every connection is cut after the first step, the event stream with them
+      const result = await client.callTool({ name: 'slow_echo', arguments: { message: 'resumed', delay: 500 } }, undefined, {
+        onprogress: ({ progress: p }: { progress: number }) => {
+          if (p === 1) server.closeAllConnections();
+        }
+      });
+      expect(result).toEqual({ content: [{ type: 'text', text: 'resumed' }] });
+      for (let waited = 0; !progress().includes(5) && waited < 2000; waited += 10) {
+        await new Promise(r => setTimeout(r, 10));
+      }
+      // Nothing is lost or repeated
+      expect(progress()).toEqual([1, 2, 3, 4, 5]);
+      // The same session carried on, and the call was not sent again
+      expect(Object.keys(transports)).toEqual([sessionId]);
+      expect(serverReceived.filter(m => m.method === 'tools/call')).toHaveLength(1);
+      expect((await client.listTools()).tools.length).toBeGreaterThan(0);
+    } finally {
+      await clientTransport.close();
+    }
+  });
+
+  test('Reconnection Gives Up', async () => {
+    console.log('=== Reconnection Gives Up ===');
+    const gone = startServer(8106, { transport, resumption: true });
+    const { client } = await createClient(gone.endpoint, { reconnect });
+    const errors: Error[] = [];
+    client.onerror = (e: Error) => errors.push(e);
+    const progress: number[] = [];
+    const ac = new AbortController();
+    try {
+      // The server goes away after the first step and is not there to come back to
+      await expect(client.callTool({ name: 'slow_echo', arguments: { message: 'lost', delay: 500 } }, undefined, {
+        onprogress: ({ progress: p }: { progress: number }) => {
+          progress.push(p);
+          if (p === 1) {
+            gone.server!.close();
+            gone.server!.closeAllConnections();
+          }
+        },
+        signal: ac.signal
+      })).rejects.toThrow('Connection closed');
+      expect(progress).toEqual([1]);
+      expect(errors.map(e => e.message)).toContain('Maximum reconnection attempts (3) exceeded.');
+    } finally {
+      // The SDK leaves the request timeout armed when the connection closes; aborting clears it
+      ac.abort();
+      await gone.stop();
+    }
+  });
+
+  test('Stream Without Event IDs Given Up', async () => {
+    console.log('=== Stream Without Event IDs Given Up ===');
+    // Without resumption the server sends no event IDs, so there is nothing to resume from
+    const plain = startServer(8110, { transport });
+    const { client } = await createClient(plain.endpoint, { reconnect });
+    const errors: Error[] = [];
+    client.onerror = (e: Error) => errors.push(e);
+    const ac = new AbortController();
+    try {
+      await expect(client.callTool({ name: 'slow_echo', arguments: { message: 'lost', delay: 500 } }, undefined, {
+        onprogress: ({ progress: p }: { progress: number }) => {
+          if (p === 1) plain.server!.closeAllConnections();
+        },
+        signal: ac.signal
+      })).rejects.toThrow('Connection closed');
+      expect(errors.map(e => e.message)).toContainEqual(expect.stringContaining('disconnected with no event ID to resume from'));
+    } finally {
+      ac.abort();
+      await plain.stop();
+    }
+  });
+
+  testSse('SSE Session Outlives Its Stream', async () => {
+    console.log('=== SSE Session Outlives Its Stream ===');
+    const sse: any = startServer(8107, { transport: 'sse', resumption: { window: 1000 } });
+    const ac = new AbortController();
+    try {
+      const response = await fetch(sse.endpoint.url, { signal: ac.signal });
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      const { value } = await reader.read();
+      const [, lastEventId, sessionId] = value!.match(/^id: ((.+)_1)\nevent: endpoint\ndata: \/messages\?sessionId=\2\n\n/)!;
+      ac.abort();
+      const dropped = Date.now();
+
+      // Still there for a client that comes back in time...
+      await new Promise(r => setTimeout(r, 100));
+      expect(Object.keys(sse.transports)).toEqual([sessionId]);
+      // ...and gone once the window has passed, which counts from when the server saw the drop
+      while (Object.keys(sse.transports).length > 0 && Date.now() - dropped < 5000) {
+        await new Promise(r => setTimeout(r, 50));
+      }
+      expect(Object.keys(sse.transports)).toEqual([]);
+      // Timers may fire a millisecond early
+      expect(Date.now() - dropped).toBeGreaterThanOrEqual(990);
+
+      const late = await fetch(sse.endpoint.url, { headers: { 'Last-Event-ID': lastEventId } });
+      expect(late.status).toBe(404);
+      expect(await late.text()).toBe('Session not found');
+    } finally {
+      await sse.stop();
+    }
+  });
+});
@@ -6,7 +6,8 @@ import {
   isJSONRPCResponse,
   isJSONRPCRequest,
   isJSONRPCNotification,
-  JSONRPCMessage
+  JSONRPCMessage,
+  McpError
 } from '@modelcontextprotocol/sdk/types.js';
 import { jest } from '@jest/globals';
 import util from 'node:util';
@@ -15,8 +16,19 @@ util.inspect.defaultOptions.depth = null;
 
 jest.setTimeout(20000);
 
+// Notifications resolve once sent, not once delivered, so what they set off is polled for
+const arrival = async (messages: JSONRPCMessage[], matches: (m: JSONRPCMessage) => boolean) => {
+  for (let waited = 0; !messages.some(matches) && waited < 2000; waited += 10) {
+    await new Promise(r => setTimeout(r, 10));
+  }
+  return messages.find(matches);
+};
+
+const isLogMessage = (m: JSONRPCMessage) => isJSONRPCNotification(m) && m.method === 'notifications/message';
+
 describe('MCP root interactions', () => {
-  let server: any;
+  let stop: () => Promise<void>;
+  let endpoint: any;
   let mcpServer: any;
   let serverReceived: JSONRPCMessage[];
   let client: any;
@@ -24,8 +36,11 @@ describe('MCP root interactions', () => {
   const received: JSONRPCMessage[] = [];
 
   beforeAll(async () => {
-    ({ server, mcpServer, serverReceived } = startServer(8084));
-    ({ client, transport } = await createClient('http://localhost:8084/sse'));
+    let ready: () => Promise<void>;
+    ({ mcpServer, serverReceived, endpoint, ready, stop } = startServer(8084));
+    ({ client, transport } = await createClient(endpoint));
+    // The server asks for roots unprompted, so the session has to be able to take its requests
+    await ready();
     const origOnmessage = transport.onmessage;
     transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
       received.push(m);
@@ -35,7 +50,7 @@ describe('MCP root interactions', () => {
 
   afterAll(async () => {
     await transport.close();
-    await new Promise(resolve => server.close(resolve));
+    await stop();
   });
 
   beforeEach(() => {
@@ -67,7 +82,7 @@ describe('MCP root interactions', () => {
       roots: [{ uri: 'file:///home/user/projects/newroot', name: 'New Root' }]
     }));
     await client.sendRootsListChanged();
-    const listChanged = serverReceived.find(m => isJSONRPCNotification(m) && m.method === 'notifications/roots/list_changed');
+    const listChanged = await arrival(serverReceived, m => isJSONRPCNotification(m) && m.method === 'notifications/roots/list_changed');
     expect(listChanged).toEqual({ jsonrpc: '2.0', method: 'notifications/roots/list_changed' });
     const nextId = (mcpServer.server as any)._requestMessageId;
     await mcpServer.server.listRoots();
@@ -83,5 +98,55 @@ describe('MCP root interactions', () => {
         ]
       }
     });
+    // Let the server's own re-fetch for the notification finish before the next test
+    await arrival(received, isLogMessage);
+  });
+
+  test('Roots Re-fetched on List Changed', async () => {
+    console.log('=== Roots Re-fetched on List Changed ===');
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({
+      roots: [
+        { uri: 'file:///home/user/projects/api', name: 'API' },
+        { uri: 'file:///home/user/projects/web', name: 'Web' }
+      ]
+    }));
+    const nextId = (mcpServer.server as any)._requestMessageId;
+    await client.sendRootsListChanged();
+    const logMsg = await arrival(received, isLogMessage);
+
+    // The server asks for the new list by itself and logs what it got
+    const req = received.find(m => isJSONRPCRequest(m) && (m as any).id === nextId);
+    expect(req).toEqual({ jsonrpc: '2.0', id: nextId, method: 'roots/list' });
+    const resp = serverReceived.find(m => isJSONRPCResponse(m) && (m as any).id === nextId) as any;
+    expect(resp.result.roots).toHaveLength(2);
+    expect(logMsg).toEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params: {
+        level: 'info',
+        logger: 'roots',
+        data: { msg: 'Roots changed', roots: ['file:///home/user/projects/api', 'file:///home/user/projects/web'] }
+      }
+    });
+    // No files are served from roots here, so the resource list stays as it was
+    expect(received.some(m => isJSONRPCNotification(m) && m.method === 'notifications/resources/list_changed')).toBe(false);
+  });
+
+  test('Roots Fetch Failure Logged', async () => {
+    console.log('=== Roots Fetch Failure Logged ===');
+    client.setRequestHandler(ListRootsRequestSchema, async () => {
+      throw new McpError(-32603, 'Roots unavailable');
+    });
+    await client.sendRootsListChanged();
+    const logMsg = await arrival(received, isLogMessage);
+    expect(logMsg).toEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params: {
+        level: 'warning',
+        logger: 'roots',
+        data: { msg: 'Roots could not be fetched', error: 'MCP error -32603: MCP error -32603: Roots unavailable' }
+      }
+    });
   });
 });
@@ -17,7 +17,8 @@ util.inspect.defaultOptions.depth = null;
 jest.setTimeout(20000);
 
 describe('MCP sampling interactions', () => {
-  let server: any;
+  let stop: () => Promise<void>;
+  let endpoint: any;
   let mcpServer: any;
   let serverReceived: JSONRPCMessage[];
   let client: any;
@@ -32,8 +33,11 @@ describe('MCP sampling interactions', () => {
   });
 
   beforeAll(async () => {
-    ({ server, mcpServer, serverReceived } = startServer(8085));
-    ({ client, transport } = await createClient('http://localhost:8085/sse'));
+    let ready: () => Promise<void>;
+    ({ mcpServer, serverReceived, endpoint, ready, stop } = startServer(8085));
+    ({ client, transport } = await createClient(endpoint));
+    // The server sends its requests unprompted, so the session has to be able to take them
+    await ready();
     const origOnmessage = transport.onmessage;
     transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
       received.push(m);
@@ -44,7 +48,7 @@ describe('MCP sampling interactions', () => {
 
   afterAll(async () => {
     await transport.close();
-    await new Promise(resolve => server.close(resolve));
+    await stop();
   });
 
   beforeEach(() => {
@@ -229,4 +233,151 @@ describe('MCP sampling interactions', () => {
     const progressNotification = serverReceived.find(m => isJSONRPCNotification(m) && m.method === 'notifications/progress');
     expect(progressNotification).toEqual({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: cancelId, progress: 0.5, total: 1, message: 'Step 1' } });
   });
+
+  test('Nested Sampling from Tool', async () => {
+    console.log('=== Nested Sampling from Tool ===');
+    const callId = (client as any)._requestMessageId;
+    const samplingId = (mcpServer.server as any)._requestMessageId;
+    const result = await client.callTool({ name: 'summarize', arguments: { text: 'Paris is the capital and largest city of France.' } });
+    expect(result).toEqual({ content: [{ type: 'text', text: 'The capital of France is Paris.' }] });
+
+    const req = received.find(m => isJSONRPCRequest(m) && m.method === 'sampling/createMessage');
+    expect(req).toEqual({
+      jsonrpc: '2.0',
+      id: samplingId,
+      method: 'sampling/createMessage',
+      params: {
+        messages: [
+          { role: 'user', content: { type: 'text', text: 'Summarize the following text:\n\nParis is the capital and largest city of France.' } }
+        ],
+        maxTokens: 100
+      }
+    });
+    const resp = serverReceived.find(m => isJSONRPCResponse(m) && (m as any).id === samplingId);
+    expect(resp).toEqual({
+      jsonrpc: '2.0',
+      id: samplingId,
+      result: {
+        role: 'assistant',
+        content: { type: 'text', text: 'The capital of France is Paris.' },
+        model: 'claude-3-sonnet-20240307',
+        stopReason: 'endTurn'
+      }
+    });
+    // The nested request is answered before the tool call it belongs to
+    const order = received.filter(m => (m as any).id === samplingId || (m as any).id === callId).map(m => isJSONRPCRequest(m) ? m.method : 'tools/call result');
+    expect(order).toEqual(['sampling/createMessage', 'tools/call result']);
+    expect(serverReceived.findIndex(m => (m as any).id === samplingId)).toBeGreaterThan(serverReceived.findIndex(m => (m as any).id === callId));
+  });
+
+  test('Nested Sampling with Progress', async () => {
+    console.log('=== Nested Sampling with Progress ===');
+    client.setRequestHandler(CreateMessageRequestSchema, async (_req: any, { sendNotification, _meta }: any) => {
+      for (let i = 1; i <= 3; i++) {
+        await new Promise(r => setTimeout(r, 50));
+        await sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken: _meta.progressToken, progress: i, total: 3, message: `Token batch ${i}` }
+        });
+      }
+      return { role: 'assistant', content: { type: 'text', text: 'Short summary' }, model: 'claude-3-sonnet-20240307', stopReason: 'endTurn' };
+    });
+    const callId = (client as any)._requestMessageId;
+    const samplingId = (mcpServer.server as any)._requestMessageId;
+    const progress: any[] = [];
+    const result = await client.callTool({ name: 'summarize', arguments: { text: 'Long text', maxTokens: 20 } }, undefined, {
+      onprogress: (p: any) => progress.push(p)
+    });
+    expect(result).toEqual({ content: [{ type: 'text', text: 'Short summary' }] });
+
+    // The sampling request carries its own token; what the client reports is relayed under the tool call's
+    const req = received.find(m => isJSONRPCRequest(m) && m.method === 'sampling/createMessage') as any;
+    expect(req.params._meta).toEqual({ progressToken: samplingId });
+    const expected = [1, 2, 3].map(i => ({ progress: i, total: 3, message: `Token batch ${i}` }));
+    const relayed = received.filter(m => isJSONRPCNotification(m) && m.method === 'notifications/progress');
+    expect(relayed.length).toBeGreaterThan(0);
+    expect(relayed).toEqual(expected.slice(0, relayed.length).map(params => ({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { ...params, progressToken: callId }
+    })));
+    // The last relay can trail the result, so only the leading notifications are certain to reach onprogress
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress).toEqual(expected.slice(0, progress.length));
+  });
+
+  test('Nested Sampling Rejected', async () => {
+    console.log('=== Nested Sampling Rejected ===');
+    client.setRequestHandler(CreateMessageRequestSchema, async () => {
+      throw new McpError(-1, 'User rejected sampling request');
+    });
+    const samplingId = (mcpServer.server as any)._requestMessageId;
+    const result = await client.callTool({ name: 'summarize', arguments: { text: 'Private notes' } });
+    // McpError prefixes its message once when the client sends it and again when the server rebuilds it
+    expect(result).toEqual({
+      content: [{ type: 'text', text: 'Sampling failed: MCP error -1: MCP error -1: User rejected sampling request' }],
+      isError: true
+    });
+    const errResp = serverReceived.find(m => isJSONRPCError(m) && (m as any).id === samplingId);
+    expect(errResp).toEqual({
+      jsonrpc: '2.0',
+      id: samplingId,
+      error: { code: -1, message: 'MCP error -1: User rejected sampling request' }
+    });
+  });
+
+  test('Nested Sampling Cancelled with Tool Call', async () => {
+    console.log('=== Nested Sampling Cancelled with Tool Call ===');
+    let samplingStarted!: () => void;
+    const started = new Promise<void>(r => { samplingStarted = r; });
+    let samplingAborted!: (reason: unknown) => void;
+    const aborted = new Promise(r => { samplingAborted = r; });
+    client.setRequestHandler(CreateMessageRequestSchema, async (_req: any, { signal }: any) => {
+      signal.addEventListener('abort', () => samplingAborted(signal.reason));
+      samplingStarted();
+      await new Promise(r => setTimeout(r, 2000));
+      return { role: 'assistant', content: { type: 'text', text: 'too late' }, model: 'claude-3-sonnet-20240307' };
+    });
+    const callId = (client as any)._requestMessageId;
+    const samplingId = (mcpServer.server as any)._requestMessageId;
+    const ac = new AbortController();
+    const call = client.callTool({ name: 'summarize', arguments: { text: 'Cancel me' } }, undefined, { signal: ac.signal });
+    await started;
+    ac.abort('User requested cancellation');
+    await expect(call).rejects.toBeTruthy();
+
+    // Cancelling the tool call makes the server cancel the sampling request it is waiting on, for the same reason
+    expect(await aborted).toBe('User requested cancellation');
+    const outerCancel = serverReceived.find(m => isJSONRPCNotification(m) && m.method === 'notifications/cancelled');
+    expect(outerCancel).toEqual({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: callId, reason: 'User requested cancellation' } });
+    const innerCancel = received.find(m => isJSONRPCNotification(m) && m.method === 'notifications/cancelled') as any;
+    expect(innerCancel).toEqual({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: samplingId, reason: 'User requested cancellation' } });
+
+    await new Promise(r => setTimeout(r, 2200));
+    expect(serverReceived.some(m => (isJSONRPCResponse(m) || isJSONRPCError(m)) && (m as any).id === samplingId)).toBe(false);
+    expect(received.some(m => (isJSONRPCResponse(m) || isJSONRPCError(m)) && (m as any).id === callId)).toBe(false);
+  });
+
+  test('Nested Sampling Routed to Calling Session', async () => {
+    console.log('=== Nested Sampling Routed to Calling Session ===');
+    const { client: other, transport: otherTransport } = await createClient(endpoint);
+    const otherRequests: any[] = [];
+    other.setRequestHandler(CreateMessageRequestSchema, async (req: any) => {
+      otherRequests.push(req);
+      return { role: 'assistant', content: { type: 'text', text: 'Summary from the second session' }, model: 'other-model' };
+    });
+    try {
+      const [first, second] = await Promise.all([
+        client.callTool({ name: 'summarize', arguments: { text: 'first' } }),
+        other.callTool({ name: 'summarize', arguments: { text: 'second' } })
+      ]);
+      expect(first).toEqual({ content: [{ type: 'text', text: 'The capital of France is Paris.' }] });
+      expect(second).toEqual({ content: [{ type: 'text', text: 'Summary from the second session' }] });
+      const ownRequests = received.filter(m => isJSONRPCRequest(m) && m.method === 'sampling/createMessage') as any[];
+      expect(ownRequests.map(r => r.params.messages[0].content.text)).toEqual(['Summarize the following text:\n\nfirst']);
+      expect(otherRequests.map(r => r.params.messages[0].content.text)).toEqual(['Summarize the following text:\n\nsecond']);
+    } finally {
+      await otherTransport.close();
+    }
+  });
 });
@@ -18,7 +18,8 @@ util.inspect.defaultOptions.depth = null;
 jest.setTimeout(20000);
 
 describe('Server utilities interactions', () => {
-  let server: any;
+  let stop: () => Promise<void>;
+  let endpoint: any;
   let mcpServer: any;
   let serverReceived: JSONRPCMessage[];
   let client: any;
@@ -26,8 +27,8 @@ describe('Server utilities interactions', () => {
   const received: JSONRPCMessage[] = [];
 
   beforeAll(async () => {
-    ({ server, mcpServer, serverReceived } = startServer(8086));
-    ({ client, transport } = await createClient('http://localhost:8086/sse'));
+    ({ mcpServer, serverReceived, endpoint, stop } = startServer(8086));
+    ({ client, transport } = await createClient(endpoint));
     const origOnmessage = transport.onmessage;
     transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
       received.push(m);
@@ -38,7 +39,7 @@ describe('Server utilities interactions', () => {
 
   afterAll(async () => {
     await transport.close();
-    await new Promise(resolve => server.close(resolve));
+    await stop();
   });
 
   beforeEach(() => {
@@ -68,6 +69,62 @@ describe('Server utilities interactions', () => {
     });
   });
 
+  test('Resource Template Completion', async () => {
+    console.log('=== Resource Template Completion ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.complete({ ref: { type: 'ref/resource', uri: 'http://example.com/{+path}' }, argument: { name: 'path', value: 'pro' } });
+    const compReq = serverReceived.find(m => isJSONRPCRequest(m) && (m as any).id === nextId);
+    expect(compReq).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      method: 'completion/complete',
+      params: { ref: { type: 'ref/resource', uri: 'http://example.com/{+path}' }, argument: { name: 'path', value: 'pro' } }
+    });
+    const compMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(compMsg).toEqual({ jsonrpc: '2.0', id: nextId, result: { completion: { values: ['project/src/main.rs'], total: 1, hasMore: false } } });
+
+    const all = await client.complete({ ref: { type: 'ref/resource', uri: 'http://example.com/{+path}' }, argument: { name: 'path', value: '' } });
+    expect(all.completion.values).toEqual(['project/src/main.rs', 'slow/data.txt', 'images/pixel.png', 'binary/all-bytes.bin']);
+    await expect(client.complete({ ref: { type: 'ref/resource', uri: 'http://example.com/{nope}' }, argument: { name: 'path', value: '' } }))
+      .rejects.toMatchObject({ code: -32602 });
+  });
+
+  test('Context-Dependent Completion', async () => {
+    console.log('=== Context-Dependent Completion ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.complete({
+      ref: { type: 'ref/prompt', name: 'schedule_meeting' },
+      argument: { name: 'timezone', value: 'Par' },
+      context: { arguments: { region: 'Europe' } }
+    });
+    const compMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(compMsg).toEqual({ jsonrpc: '2.0', id: nextId, result: { completion: { values: ['Europe/Paris'], total: 1, hasMore: false } } });
+
+    // Without the region the same prefix matches nothing, since zones start with their region
+    const unscoped = await client.complete({ ref: { type: 'ref/prompt', name: 'schedule_meeting' }, argument: { name: 'timezone', value: 'Par' } });
+    expect(unscoped.completion).toEqual({ values: [], total: 0, hasMore: false });
+    const regions = await client.complete({ ref: { type: 'ref/prompt', name: 'schedule_meeting' }, argument: { name: 'region', value: 'Eu' } });
+    expect(regions.completion).toEqual({ values: ['Europe'], total: 1, hasMore: false });
+  });
+
+  test('Completion Truncated at 100', async () => {
+    console.log('=== Completion Truncated at 100 ===');
+    const zones: string[] = (Intl as any).supportedValuesOf('timeZone');
+    const nextId = (client as any)._requestMessageId;
+    await client.complete({ ref: { type: 'ref/prompt', name: 'schedule_meeting' }, argument: { name: 'timezone', value: '' } });
+    const compMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(compMsg).toEqual({ jsonrpc: '2.0', id: nextId, result: { completion: { values: zones.slice(0, 100), total: zones.length, hasMore: true } } });
+
+    const america = zones.filter(zone => zone.startsWith('America/'));
+    expect(america.length).toBeGreaterThan(100);
+    const scoped = await client.complete({
+      ref: { type: 'ref/prompt', name: 'schedule_meeting' },
+      argument: { name: 'timezone', value: '' },
+      context: { arguments: { region: 'America' } }
+    });
+    expect(scoped.completion).toEqual({ values: america.slice(0, 100), total: america.length, hasMore: true });
+  });
+
   test('Logging Level and Messages', async () => {
     console.log('=== Logging Level and Messages ===');
     const nextId = (client as any)._requestMessageId;
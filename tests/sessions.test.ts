@@ -0,0 +1,134 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import {
+  LoggingMessageNotificationSchema,
+  ResourceUpdatedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { jest } from '@jest/globals';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+describe('Concurrent session state', () => {
+  let stop: () => Promise<void>;
+  let mcpServer: any;
+  let servers: Record<string, any>;
+  let endpoint: any;
+  let ready: () => Promise<void>;
+  const clients: { client: any; transport: any; updates: string[]; logs: string[] }[] = [];
+
+  // Sends through every session's server; each one filters by its own session state
+  const broadcast = async (send: (server: any) => Promise<void>) => {
+    await Promise.all(Object.values(servers).map(send));
+    await new Promise(r => setTimeout(r, 100));
+  };
+
+  beforeAll(async () => {
+    ({ mcpServer, servers, endpoint, ready, stop } = startServer(8092));
+    for (let i = 0; i < 2; i++) {
+      const { client, transport } = await createClient(endpoint);
+      const session = { client, transport, updates: [] as string[], logs: [] as string[] };
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n: any) => { session.updates.push(n.params.uri); });
+      client.setNotificationHandler(LoggingMessageNotificationSchema, (n: any) => { session.logs.push(n.params.data.msg); });
+      clients.push(session);
+    }
+    await ready();
+  });
+
+  afterAll(async () => {
+    for (const { transport } of clients) {
+      await transport.close();
+    }
+    await stop();
+  });
+
+  beforeEach(() => {
+    for (const session of clients) {
+      session.updates.splice(0, session.updates.length);
+      session.logs.splice(0, session.logs.length);
+    }
+  });
+
+  test('Separate Server per Session', async () => {
+    console.log('=== Separate Server per Session ===');
+    const sessionServers = Object.values(servers);
+    expect(sessionServers).toHaveLength(2);
+    expect(new Set(sessionServers).size).toBe(2);
+    expect(sessionServers).toContain(mcpServer);
+  });
+
+  test('Subscriptions Isolated Between Sessions', async () => {
+    console.log('=== Subscriptions Isolated Between Sessions ===');
+    const [a, b] = clients;
+    const uri = 'file:///project/src/main.rs';
+    await a.client.subscribeResource({ uri });
+    await broadcast(server => server.server.sendResourceUpdated({ uri }));
+    expect(a.updates).toEqual([uri]);
+    expect(b.updates).toEqual([]);
+
+    await b.client.subscribeResource({ uri });
+    await a.client.unsubscribeResource({ uri });
+    await broadcast(server => server.server.sendResourceUpdated({ uri }));
+    expect(a.updates).toEqual([uri]);
+    expect(b.updates).toEqual([uri]);
+  });
+
+  test('Log Level Isolated Between Sessions', async () => {
+    console.log('=== Log Level Isolated Between Sessions ===');
+    const [a, b] = clients;
+    await a.client.setLoggingLevel('error');
+    await broadcast(async server => {
+      await server.server.sendLoggingMessage({ level: 'info', logger: 'test', data: { msg: 'info' } });
+      await server.server.sendLoggingMessage({ level: 'error', logger: 'test', data: { msg: 'error' } });
+    });
+    expect(a.logs).toEqual(['error']);
+    expect(b.logs).toEqual(['info', 'error']);
+  });
+
+  test('Store Changes Reach Other Sessions', async () => {
+    console.log('=== Store Changes Reach Other Sessions ===');
+    const [a, b] = clients;
+    const uri = 'file:///project/src/main.rs';
+    await b.client.unsubscribeResource({ uri });
+    await a.client.subscribeResource({ uri });
+    await b.client.callTool({ name: 'update_resource', arguments: { uri, text: 'fn main() {}' } });
+    await new Promise(r => setTimeout(r, 100));
+    expect(a.updates).toEqual([uri]);
+    expect(b.updates).toEqual([]);
+    const { contents } = await a.client.readResource({ uri });
+    expect(contents).toEqual([{ uri, mimeType: 'text/x-rust', text: 'fn main() {}' }]);
+  });
+
+  test('No State Carried to the Next Session', async () => {
+    console.log('=== No State Carried to the Next Session ===');
+    const [a] = clients;
+    const uri = 'file:///project/src/main.rs';
+    // The first client is served by the primary server; it leaves a subscription and a level behind
+    await a.client.subscribeResource({ uri });
+    await a.client.setLoggingLevel('error');
+    // The SDK's Streamable HTTP client leaves its session open on close, so it is ended explicitly
+    if (endpoint.transport === 'streamable-http') {
+      await fetch(endpoint.url, { method: 'DELETE', headers: { 'mcp-session-id': a.transport.sessionId } });
+    }
+    await a.transport.close();
+    for (let waited = 0; mcpServer.isConnected() && waited < 2000; waited += 20) {
+      await new Promise(r => setTimeout(r, 20));
+    }
+
+    // The primary server is free again and takes the next client, which starts afresh
+    const { client, transport } = await createClient(endpoint);
+    const next = { client, transport, updates: [] as string[], logs: [] as string[] };
+    clients[0] = next;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n: any) => { next.updates.push(n.params.uri); });
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (n: any) => { next.logs.push(n.params.data.msg); });
+    await ready();
+    expect(Object.values(servers)).toContain(mcpServer);
+    await mcpServer.server.sendResourceUpdated({ uri });
+    await mcpServer.server.sendLoggingMessage({ level: 'info', logger: 'test', data: { msg: 'info' } });
+    await new Promise(r => setTimeout(r, 100));
+    expect(next.updates).toEqual([]);
+    expect(next.logs).toEqual(['info']);
+  });
+});
@@ -0,0 +1,96 @@
+import { createClient } from '../client';
+import {
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  isJSONRPCNotification,
+  JSONRPCMessage
+} from '@modelcontextprotocol/sdk/types.js';
+import { jest } from '@jest/globals';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+describe('stdio transport interactions', () => {
+  let serverReceived: JSONRPCMessage[];
+  let client: any;
+  let transport: any;
+  const received: JSONRPCMessage[] = [];
+
+  beforeAll(async () => {
+    ({ client, transport, sent: serverReceived } = await createClient('server/stdio.ts', { transport: 'stdio' }));
+    const origOnmessage = transport.onmessage;
+    transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
+      received.push(m);
+      origOnmessage?.(m, extra);
+    };
+  });
+
+  afterAll(async () => {
+    await transport.close();
+  });
+
+  beforeEach(() => {
+    received.splice(0, received.length);
+    serverReceived.splice(0, serverReceived.length);
+  });
+
+  test('Initialization over stdio', async () => {
+    console.log('=== Initialization over stdio ===');
+    expect(client.getServerVersion()).toEqual({ name: 'test-sse-server', version: '1.0.0' });
+    expect(client.getServerCapabilities()).toEqual(expect.objectContaining({
+      logging: {},
+      resources: expect.objectContaining({ subscribe: true }),
+      tools: expect.any(Object),
+      prompts: expect.any(Object)
+    }));
+  });
+
+  test('Tool Invocation over stdio', async () => {
+    console.log('=== Tool Invocation over stdio ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'get_weather', arguments: { location: 'New York' } });
+    const callReq = serverReceived.find(m => isJSONRPCRequest(m) && (m as any).id === nextId);
+    expect(callReq).toEqual({ jsonrpc: '2.0', id: nextId, method: 'tools/call', params: { name: 'get_weather', arguments: { location: 'New York' } } });
+    const callMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(callMsg).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      result: {
+        content: [
+          { type: 'text', text: 'Current weather in New York:\nTemperature: 72°F\nConditions: Partly cloudy' }
+        ],
+        isError: false
+      }
+    });
+  });
+
+  test('Tool Call with Progress over stdio', async () => {
+    console.log('=== Tool Call with Progress over stdio ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'slow_echo', arguments: { message: 'hello', delay: 200 } }, undefined, {
+      onprogress: () => { /* progress events logged */ }
+    });
+    const progressNotifications = received.filter(m => isJSONRPCNotification(m) && m.method === 'notifications/progress');
+    expect(progressNotifications.length).toBe(5);
+    const callMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(callMsg).toEqual({ jsonrpc: '2.0', id: nextId, result: { content: [{ type: 'text', text: 'hello' }] } });
+  });
+
+  test('Prompt and Resource Fixtures over stdio', async () => {
+    console.log('=== Prompt and Resource Fixtures over stdio ===');
+    const prompt = await client.getPrompt({ name: 'code_review', arguments: { language: 'python', code: 'x = 1' } });
+    expect(prompt.messages).toEqual([
+      { role: 'user', content: { type: 'text', text: 'Please review this python code:\nx = 1' } }
+    ]);
+    const resource = await client.readResource({ uri: 'file:///project/src/main.rs' });
+    expect(resource.contents).toEqual([
+      { uri: 'file:///project/src/main.rs', mimeType: 'text/x-rust', text: 'fn main() {\n    println!("Hello world!");\n}' }
+    ]);
+    const templated = await client.readResource({ uri: 'http://example.com/project/src/main.rs' });
+    expect(templated.contents).toEqual([
+      { uri: 'http://example.com/project/src/main.rs', mimeType: 'text/x-rust', text: 'fn main() {\n    println!("Hello world!");\n}' }
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import {
+  LoggingMessageNotificationSchema,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  isJSONRPCNotification,
+  JSONRPCMessage
+} from '@modelcontextprotocol/sdk/types.js';
+import { jest } from '@jest/globals';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+describe('Streamable HTTP transport interactions', () => {
+  let stop: () => Promise<void>;
+  let mcpServer: any;
+  let serverReceived: JSONRPCMessage[];
+  let client: any;
+  let transport: any;
+  const received: JSONRPCMessage[] = [];
+
+  beforeAll(async () => {
+    ({ mcpServer, serverReceived, stop } = startServer(8087, { transport: 'streamable-http' }));
+    ({ client, transport } = await createClient('http://localhost:8087/mcp', { transport: 'streamable-http' }));
+    const origOnmessage = transport.onmessage;
+    transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
+      received.push(m);
+      origOnmessage?.(m, extra);
+    };
+    client.setNotificationHandler(LoggingMessageNotificationSchema, () => {});
+  });
+
+  afterAll(async () => {
+    await transport.close();
+    await stop();
+  });
+
+  beforeEach(() => {
+    received.splice(0, received.length);
+    serverReceived.splice(0, serverReceived.length);
+  });
+
+  test('Session ID Header', async () => {
+    console.log('=== Session ID Header ===');
+    expect(transport.sessionId).toEqual(expect.any(String));
+    const res = await fetch('http://localhost:8087/mcp', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        'mcp-session-id': 'unknown-session'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })
+    });
+    expect(res.status).toBe(404);
+    const missing = await fetch('http://localhost:8087/mcp', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })
+    });
+    expect(missing.status).toBe(400);
+  });
+
+  test('Tool Call with Progress over Streamable HTTP', async () => {
+    console.log('=== Tool Call with Progress over Streamable HTTP ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'slow_echo', arguments: { message: 'hello', delay: 200 } }, undefined, {
+      onprogress: () => { /* progress events logged */ }
+    });
+    const callReq = serverReceived.find(m => isJSONRPCRequest(m) && (m as any).id === nextId);
+    expect(callReq).toEqual({ jsonrpc: '2.0', id: nextId, method: 'tools/call', params: { name: 'slow_echo', arguments: { message: 'hello', delay: 200 }, _meta: { progressToken: nextId } } });
+    const progressNotifications = received.filter(m => isJSONRPCNotification(m) && m.method === 'notifications/progress');
+    expect(progressNotifications.length).toBe(5);
+    const callMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(callMsg).toEqual({ jsonrpc: '2.0', id: nextId, result: { content: [{ type: 'text', text: 'hello' }] } });
+  });
+
+  test('Server Notifications on Standalone Stream', async () => {
+    console.log('=== Server Notifications on Standalone Stream ===');
+    await mcpServer.server.sendLoggingMessage({ level: 'info', logger: 'test', data: { msg: 'standalone' } });
+    await new Promise(r => setTimeout(r, 50));
+    const logMsg = received.find(m => isJSONRPCNotification(m) && m.method === 'notifications/message');
+    expect(logMsg).toEqual({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', logger: 'test', data: { msg: 'standalone' } } });
+  });
+
+  test('Session Termination', async () => {
+    console.log('=== Session Termination ===');
+    const sessionId = transport.sessionId;
+    const res = await fetch('http://localhost:8087/mcp', {
+      method: 'DELETE',
+      headers: { 'mcp-session-id': sessionId }
+    });
+    expect(res.status).toBe(200);
+    const after = await fetch('http://localhost:8087/mcp', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        'mcp-session-id': sessionId
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })
+    });
+    expect(after.status).toBe(404);
+  });
+});
@@ -17,7 +17,8 @@ util.inspect.defaultOptions.depth = null;
 jest.setTimeout(20000);
 
 describe('MCP resource template interactions', () => {
-  let server: any;
+  let stop: () => Promise<void>;
+  let endpoint: any;
   let mcpServer: any;
   let serverReceived: JSONRPCMessage[];
   let client: any;
@@ -25,8 +26,8 @@ describe('MCP resource template interactions', () => {
   const received: JSONRPCMessage[] = [];
 
   beforeAll(async () => {
-    ({ server, mcpServer, serverReceived } = startServer(8081));
-    ({ client, transport } = await createClient('http://localhost:8081/sse'));
+    ({ mcpServer, serverReceived, endpoint, stop } = startServer(8081));
+    ({ client, transport } = await createClient(endpoint));
     const origOnmessage = transport.onmessage;
     transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
       received.push(m);
@@ -37,7 +38,7 @@ describe('MCP resource template interactions', () => {
 
   afterAll(async () => {
     await transport.close();
-    await new Promise(resolve => server.close(resolve));
+    await stop();
   });
 
   beforeEach(() => {
@@ -1,5 +1,6 @@
 import { startServer } from '../server';
 import { createClient } from '../client';
+import { BEEP_WAV, PIXEL_PNG } from '../server/blobs';
 import {
   ToolListChangedNotificationSchema,
   isJSONRPCRequest,
@@ -16,7 +17,8 @@ util.inspect.defaultOptions.depth = null;
 jest.setTimeout(20000);
 
 describe('MCP tool interactions', () => {
-  let server: any;
+  let stop: () => Promise<void>;
+  let endpoint: any;
   let mcpServer: any;
   let serverReceived: JSONRPCMessage[];
   let client: any;
@@ -24,8 +26,8 @@ describe('MCP tool interactions', () => {
   const received: JSONRPCMessage[] = [];
 
   beforeAll(async () => {
-    ({ server, mcpServer, serverReceived } = startServer(8082));
-    ({ client, transport } = await createClient('http://localhost:8082/sse'));
+    ({ mcpServer, serverReceived, endpoint, stop } = startServer(8082));
+    ({ client, transport } = await createClient(endpoint));
     const origOnmessage = transport.onmessage;
     transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
       received.push(m);
@@ -36,7 +38,7 @@ describe('MCP tool interactions', () => {
 
   afterAll(async () => {
     await transport.close();
-    await new Promise(resolve => server.close(resolve));
+    await stop();
   });
 
   beforeEach(() => {
@@ -82,6 +84,137 @@ describe('MCP tool interactions', () => {
               additionalProperties: false,
               $schema: 'http://json-schema.org/draft-07/schema#'
             }
+          },
+          {
+            name: 'blob_digest',
+            description: 'Size and SHA-256 of base64 data',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                data: { type: 'string', description: 'Base64 data' }
+              },
+              required: ['data'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'report_error',
+            description: 'Return an isError result',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' }
+              },
+              required: ['message'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'throw_error',
+            description: 'Throw from the handler',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+                code: { type: 'integer' }
+              },
+              required: ['message'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          { name: 'get_image', description: 'Return a PNG image', inputSchema: { type: 'object' } },
+          { name: 'get_audio', description: 'Return a WAV clip', inputSchema: { type: 'object' } },
+          {
+            name: 'embed_resource',
+            description: 'Return a stored resource as embedded content',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                uri: { type: 'string' }
+              },
+              required: ['uri'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'weather_report',
+            description: 'Weather report with chart, audio summary and raw data',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                location: { type: 'string' }
+              },
+              required: ['location'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'summarize',
+            description: "Summarize text with the client's model",
+            inputSchema: {
+              type: 'object',
+              properties: {
+                text: { type: 'string' },
+                maxTokens: { type: 'integer', default: 100 }
+              },
+              required: ['text'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'whoami',
+            description: "Describe the caller's access token",
+            inputSchema: { type: 'object' }
+          },
+          {
+            name: 'create_resource',
+            description: 'Add a text resource to the store',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                uri: { type: 'string' },
+                name: { type: 'string' },
+                mimeType: { type: 'string', default: 'text/plain' },
+                text: { type: 'string' }
+              },
+              required: ['uri', 'name', 'text'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'update_resource',
+            description: 'Replace the text of a stored resource',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                uri: { type: 'string' },
+                text: { type: 'string' },
+                expectedVersion: { type: 'integer' }
+              },
+              required: ['uri', 'text'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'delete_resource',
+            description: 'Remove a stored resource',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                uri: { type: 'string' }
+              },
+              required: ['uri'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
           }
         ]
       }
@@ -132,6 +265,137 @@ describe('MCP tool interactions', () => {
               $schema: 'http://json-schema.org/draft-07/schema#'
             }
           },
+          {
+            name: 'blob_digest',
+            description: 'Size and SHA-256 of base64 data',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                data: { type: 'string', description: 'Base64 data' }
+              },
+              required: ['data'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'report_error',
+            description: 'Return an isError result',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' }
+              },
+              required: ['message'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'throw_error',
+            description: 'Throw from the handler',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+                code: { type: 'integer' }
+              },
+              required: ['message'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          { name: 'get_image', description: 'Return a PNG image', inputSchema: { type: 'object' } },
+          { name: 'get_audio', description: 'Return a WAV clip', inputSchema: { type: 'object' } },
+          {
+            name: 'embed_resource',
+            description: 'Return a stored resource as embedded content',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                uri: { type: 'string' }
+              },
+              required: ['uri'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'weather_report',
+            description: 'Weather report with chart, audio summary and raw data',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                location: { type: 'string' }
+              },
+              required: ['location'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'summarize',
+            description: "Summarize text with the client's model",
+            inputSchema: {
+              type: 'object',
+              properties: {
+                text: { type: 'string' },
+                maxTokens: { type: 'integer', default: 100 }
+              },
+              required: ['text'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'whoami',
+            description: "Describe the caller's access token",
+            inputSchema: { type: 'object' }
+          },
+          {
+            name: 'create_resource',
+            description: 'Add a text resource to the store',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                uri: { type: 'string' },
+                name: { type: 'string' },
+                mimeType: { type: 'string', default: 'text/plain' },
+                text: { type: 'string' }
+              },
+              required: ['uri', 'name', 'text'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'update_resource',
+            description: 'Replace the text of a stored resource',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                uri: { type: 'string' },
+                text: { type: 'string' },
+                expectedVersion: { type: 'integer' }
+              },
+              required: ['uri', 'text'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
+          {
+            name: 'delete_resource',
+            description: 'Remove a stored resource',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                uri: { type: 'string' }
+              },
+              required: ['uri'],
+              additionalProperties: false,
+              $schema: 'http://json-schema.org/draft-07/schema#'
+            }
+          },
           {
             name: 'ping',
             description: 'Ping tool',
@@ -223,4 +487,139 @@ describe('MCP tool interactions', () => {
     const progressNotification = received.find(m => isJSONRPCNotification(m) && m.method === 'notifications/progress');
     expect(progressNotification).toEqual({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: progressId, progress: 1, total: 5, message: 'Step 1' } });
   });
+
+  test('Image Content Result', async () => {
+    console.log('=== Image Content Result ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'get_image' });
+    const callMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(callMsg).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      result: { content: [{ type: 'image', data: PIXEL_PNG.toString('base64'), mimeType: 'image/png' }] }
+    });
+  });
+
+  test('Audio Content Result', async () => {
+    console.log('=== Audio Content Result ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'get_audio' });
+    const callMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId) as any;
+    expect(callMsg).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      result: { content: [{ type: 'audio', data: BEEP_WAV.toString('base64'), mimeType: 'audio/wav' }] }
+    });
+    expect(Buffer.from(callMsg.result.content[0].data, 'base64').subarray(0, 4).toString()).toBe('RIFF');
+  });
+
+  test('Embedded Resource Result', async () => {
+    console.log('=== Embedded Resource Result ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'embed_resource', arguments: { uri: 'file:///project/src/main.rs' } });
+    const callMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(callMsg).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      result: {
+        content: [{
+          type: 'resource',
+          resource: { uri: 'file:///project/src/main.rs', mimeType: 'text/x-rust', text: 'fn main() {\n    println!("Hello world!");\n}' }
+        }]
+      }
+    });
+  });
+
+  test('Mixed Content Result', async () => {
+    console.log('=== Mixed Content Result ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'weather_report', arguments: { location: 'New York' } });
+    const callMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(callMsg).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      result: {
+        content: [
+          { type: 'text', text: 'Weather report for New York' },
+          { type: 'image', data: PIXEL_PNG.toString('base64'), mimeType: 'image/png' },
+          { type: 'audio', data: BEEP_WAV.toString('base64'), mimeType: 'audio/wav' },
+          {
+            type: 'resource',
+            resource: {
+              uri: 'weather://New%20York/today',
+              mimeType: 'application/json',
+              text: JSON.stringify({ location: 'New York', temperature: 72, conditions: 'Partly cloudy' })
+            }
+          }
+        ]
+      }
+    });
+  });
+
+  test('Tool Result Flagged isError', async () => {
+    console.log('=== Tool Result Flagged isError ===');
+    const nextId = (client as any)._requestMessageId;
+    const result = await client.callTool({ name: 'report_error', arguments: { message: 'Disk quota exceeded' } });
+    expect(result).toEqual({ content: [{ type: 'text', text: 'Disk quota exceeded' }], isError: true });
+    // A normal JSON-RPC result: the failure is reported to the model, not the protocol
+    const callMsg = received.find(m => (isJSONRPCResponse(m) || isJSONRPCError(m)) && (m as any).id === nextId);
+    expect(callMsg).toEqual({ jsonrpc: '2.0', id: nextId, result: { content: [{ type: 'text', text: 'Disk quota exceeded' }], isError: true } });
+  });
+
+  test('Tool Handler Throws', async () => {
+    console.log('=== Tool Handler Throws ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'throw_error', arguments: { message: 'Boom' } });
+    const callMsg = received.find(m => (isJSONRPCResponse(m) || isJSONRPCError(m)) && (m as any).id === nextId);
+    expect(callMsg).toEqual({ jsonrpc: '2.0', id: nextId, result: { content: [{ type: 'text', text: 'Boom' }], isError: true } });
+
+    // Even an McpError with its own code stays an isError result; the code only survives in the text
+    const mcpErrorId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'throw_error', arguments: { message: 'Upstream unavailable', code: -32603 } });
+    const mcpErrorMsg = received.find(m => (isJSONRPCResponse(m) || isJSONRPCError(m)) && (m as any).id === mcpErrorId);
+    expect(mcpErrorMsg).toEqual({
+      jsonrpc: '2.0',
+      id: mcpErrorId,
+      result: { content: [{ type: 'text', text: 'MCP error -32603: Upstream unavailable' }], isError: true }
+    });
+  });
+
+  test('Tool Argument Validation Errors', async () => {
+    console.log('=== Tool Argument Validation Errors ===');
+    for (const args of [{ location: 42 }, {}]) {
+      const nextId = (client as any)._requestMessageId;
+      await expect(client.callTool({ name: 'get_weather', arguments: args })).rejects.toMatchObject({ code: -32602 });
+      const errorMsg = received.find(m => isJSONRPCError(m) && (m as any).id === nextId) as any;
+      expect(errorMsg).toEqual({
+        jsonrpc: '2.0',
+        id: nextId,
+        error: { code: -32602, message: expect.stringMatching(/^MCP error -32602: Invalid arguments for tool get_weather: /) }
+      });
+      expect(errorMsg.error.message).toContain('"location"');
+    }
+  });
+
+  test('Unknown Tool', async () => {
+    console.log('=== Unknown Tool ===');
+    const nextId = (client as any)._requestMessageId;
+    await expect(client.callTool({ name: 'no_such_tool' })).rejects.toMatchObject({ code: -32602 });
+    const errorMsg = received.find(m => isJSONRPCError(m) && (m as any).id === nextId);
+    expect(errorMsg).toEqual({ jsonrpc: '2.0', id: nextId, error: { code: -32602, message: 'MCP error -32602: Tool no_such_tool not found' } });
+  });
+
+  test('Disabled and Removed Tools', async () => {
+    console.log('=== Disabled and Removed Tools ===');
+    const disabledId = (client as any)._requestMessageId;
+    await expect(client.callTool({ name: 'maintenance_tool' })).rejects.toMatchObject({ code: -32602 });
+    const disabledMsg = received.find(m => isJSONRPCError(m) && (m as any).id === disabledId);
+    expect(disabledMsg).toEqual({ jsonrpc: '2.0', id: disabledId, error: { code: -32602, message: 'MCP error -32602: Tool maintenance_tool disabled' } });
+
+    const temp = mcpServer.tool('temp_tool', 'Removed again below', async () => ({ content: [{ type: 'text', text: 'temp' }] }));
+    expect((await client.callTool({ name: 'temp_tool' })).content).toEqual([{ type: 'text', text: 'temp' }]);
+    temp.remove();
+    const removedId = (client as any)._requestMessageId;
+    await expect(client.callTool({ name: 'temp_tool' })).rejects.toMatchObject({ code: -32602 });
+    const removedMsg = received.find(m => isJSONRPCError(m) && (m as any).id === removedId);
+    expect(removedMsg).toEqual({ jsonrpc: '2.0', id: removedId, error: { code: -32602, message: 'MCP error -32602: Tool temp_tool not found' } });
+  });
 });
@@ -0,0 +1,72 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import { TraceSink } from '../shared/trace';
+import { jest } from '@jest/globals';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+describe('Message tracing', () => {
+  let stop: () => Promise<void>;
+  let client: any;
+  let transport: any;
+  const trace = new TraceSink();
+
+  beforeAll(async () => {
+    let endpoint: any;
+    ({ endpoint, stop } = startServer(8089, { transport: 'memory', trace }));
+    ({ client, transport } = await createClient(endpoint, { trace }));
+  });
+
+  afterAll(async () => {
+    await transport.close();
+    await stop();
+  });
+
+  beforeEach(() => {
+    trace.clear();
+  });
+
+  test('Trace Records Both Directions', async () => {
+    console.log('=== Trace Records Both Directions ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'slow_echo', arguments: { message: 'traced', delay: 100 } }, undefined, {
+      onprogress: () => { /* progress events logged */ }
+    });
+    const forRequest = trace.records.filter(r => (r.message as any).id === nextId || (r.message as any).params?.progressToken === nextId);
+    expect(forRequest.map(r => [r.side, r.direction, r.type])).toEqual([
+      ['client', 'out', 'request'],
+      ['server', 'in', 'request'],
+      ...Array(5).fill(null).flatMap(() => [['server', 'out', 'notification'], ['client', 'in', 'notification']]),
+      ['server', 'out', 'response'],
+      ['client', 'in', 'response']
+    ]);
+    const serverRecords = trace.records.filter(r => r.side === 'server');
+    expect(new Set(serverRecords.map(r => r.sessionId)).size).toBe(1);
+    expect(serverRecords[0].sessionId).toEqual(expect.any(String));
+    expect(trace.records.every(r => r.transport === 'memory' && !Number.isNaN(Date.parse(r.timestamp)))).toBe(true);
+  });
+
+  test('Error Responses Classified', async () => {
+    console.log('=== Error Responses Classified ===');
+    await expect(client.readResource({ uri: 'http://example.com/missing' })).rejects.toThrow();
+    const errors = trace.records.filter(r => r.type === 'error');
+    expect(errors.map(r => [r.side, r.direction])).toEqual([['server', 'out'], ['client', 'in']]);
+    expect(errors[0].message).toEqual({ jsonrpc: '2.0', id: expect.any(Number), error: { code: -32002, message: 'MCP error -32002: Resource not found' } });
+  });
+
+  test('Trace Written as JSONL', async () => {
+    console.log('=== Trace Written as JSONL ===');
+    await client.ping();
+    const file = path.join(mkdtempSync(path.join(tmpdir(), 'mcp-trace-')), 'ping.jsonl');
+    trace.writeJsonl(file);
+    const lines = readFileSync(file, 'utf8').trim().split('\n').map(l => JSON.parse(l));
+    expect(lines).toEqual(trace.records);
+    expect(lines.map(l => l.type)).toEqual(['request', 'request', 'response', 'response']);
+  });
+});
@@ -0,0 +1,13 @@
+import { defaultTraceSink, traceFile } from '../shared/trace';
+import { conformance } from '../shared/conformance';
+
+// Flushes the shared trace sink after every test to traces/<suite>/<test>.jsonl
+// and checks the test's traffic against the protocol's sequencing rules
+afterEach(() => {
+  const { currentTestName, testPath } = expect.getState();
+  defaultTraceSink.writeJsonl(traceFile(testPath ?? 'unknown', currentTestName ?? 'unknown'));
+  const violations = conformance.check(defaultTraceSink.records);
+  defaultTraceSink.clear();
+  conformance.reset();
+  expect(violations).toEqual([]);
+});
@@ -0,0 +1,111 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import { isJSONRPCRequest, JSONRPCMessage, LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { jest } from '@jest/globals';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+describe('Protocol version negotiation', () => {
+  let stop: () => Promise<void>;
+  let endpoint: any;
+  let serverReceived: JSONRPCMessage[];
+
+  beforeAll(() => {
+    ({ endpoint, serverReceived, stop } = startServer(8099));
+  });
+
+  afterAll(async () => {
+    await stop();
+  });
+
+  beforeEach(() => {
+    serverReceived.splice(0, serverReceived.length);
+  });
+
+  // Connects a client asking for `protocolVersion`, runs `body` and disconnects it
+  const withClient = async (protocolVersion: string | undefined, body: (connected: any) => Promise<void>) => {
+    const connected = await createClient(endpoint, { protocolVersion });
+    try {
+      await body(connected);
+    } finally {
+      await connected.transport.close();
+    }
+  };
+
+  test('Negotiated Protocol Version', async () => {
+    console.log('=== Negotiated Protocol Version ===');
+    await withClient(undefined, async ({ protocolVersion, sent }) => {
+      expect(sent[0]).toMatchObject({ method: 'initialize', params: { protocolVersion: LATEST_PROTOCOL_VERSION } });
+      expect(protocolVersion).toBe('2025-03-26');
+    });
+    // A supported older version is agreed as asked
+    await withClient('2024-11-05', async ({ protocolVersion, sent }) => {
+      expect(sent[0]).toMatchObject({ method: 'initialize', params: { protocolVersion: '2024-11-05' } });
+      expect(protocolVersion).toBe('2024-11-05');
+    });
+    // A version from the future gets the newest the server has, which the client accepts
+    await withClient('2099-01-01', async ({ protocolVersion }) => {
+      expect(protocolVersion).toBe('2025-03-26');
+    });
+    const requested = serverReceived.filter(m => isJSONRPCRequest(m) && m.method === 'initialize').map((m: any) => m.params.protocolVersion);
+    expect(requested).toEqual(['2025-03-26', '2024-11-05', '2099-01-01']);
+  });
+
+  test('Unsupported Protocol Version Rejected', async () => {
+    console.log('=== Unsupported Protocol Version Rejected ===');
+    const latestOnly = startServer(8099, { transport: 'memory', protocolVersions: ['2025-03-26'] });
+    const legacyOnly = startServer(8099, { transport: 'memory', protocolVersions: ['2024-11-05'] });
+    const futureOnly = startServer(8099, { transport: 'memory', protocolVersions: ['2099-01-01'] });
+    try {
+      // The server answers with a version of its own, and a client pinned to an older one disconnects
+      await expect(createClient(latestOnly.endpoint, { protocolVersion: '2024-11-05' }))
+        .rejects.toThrow("Server's protocol version is not supported: 2025-03-26");
+      const init = latestOnly.serverReceived.find(m => isJSONRPCRequest(m) && m.method === 'initialize');
+      expect(init).toMatchObject({ params: { protocolVersion: '2024-11-05' } });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(Object.keys(latestOnly.servers)).toEqual([]);
+      expect(latestOnly.serverReceived.some(m => 'method' in m && m.method === 'notifications/initialized')).toBe(false);
+
+      // The SDK client rejects a version it does not know at all
+      await expect(createClient(futureOnly.endpoint)).rejects.toThrow("Server's protocol version is not supported: 2099-01-01");
+
+      // A newer client falls back to the older version the server offers
+      const { transport, protocolVersion } = await createClient(legacyOnly.endpoint);
+      expect(protocolVersion).toBe('2024-11-05');
+      await transport.close();
+    } finally {
+      await Promise.all([latestOnly.stop(), legacyOnly.stop(), futureOnly.stop()]);
+    }
+  });
+
+  test('Features per Protocol Version', async () => {
+    console.log('=== Features per Protocol Version ===');
+    const completion = { ref: { type: 'ref/prompt', name: 'code_review' }, argument: { name: 'language', value: 'py' } };
+
+    await withClient('2025-03-26', async ({ client }) => {
+      expect(client.getServerCapabilities().completions).toEqual({});
+      const progress: any[] = [];
+      await client.callTool({ name: 'slow_echo', arguments: { message: 'hi', delay: 100 } }, undefined, { onprogress: (p: any) => progress.push(p) });
+      expect(progress[0]).toEqual({ progress: 1, total: 5, message: 'Step 1' });
+      const audio = await client.callTool({ name: 'get_audio' });
+      expect(audio.content).toEqual([{ type: 'audio', data: expect.any(String), mimeType: 'audio/wav' }]);
+    });
+
+    await withClient('2024-11-05', async ({ client }) => {
+      // completion/complete predates the capability, so it is answered without being declared
+      expect(client.getServerCapabilities().completions).toBeUndefined();
+      expect((await client.complete(completion)).completion.values).toEqual(['python', 'pytorch', 'pyside']);
+      const progress: any[] = [];
+      await client.callTool({ name: 'slow_echo', arguments: { message: 'hi', delay: 100 } }, undefined, { onprogress: (p: any) => progress.push(p) });
+      expect(progress[0]).toEqual({ progress: 1, total: 5 });
+      const audio = await client.callTool({ name: 'get_audio' });
+      expect(audio.content).toEqual([{ type: 'text', text: 'audio/wav audio omitted: protocol version 2024-11-05 has no audio content' }]);
+      // Content types the version does have pass unchanged
+      const report = await client.callTool({ name: 'weather_report', arguments: { location: 'Oslo' } });
+      expect(report.content.map((item: any) => item.type)).toEqual(['text', 'image', 'text', 'resource']);
+    });
+  });
+});
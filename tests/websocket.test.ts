@@ -0,0 +1,163 @@
+import { startServer } from '../server';
+import { createClient } from '../client';
+import {
+  CreateMessageRequestSchema,
+  ResourceUpdatedNotificationSchema,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  isJSONRPCNotification,
+  isJSONRPCError,
+  JSONRPCMessage,
+  LATEST_PROTOCOL_VERSION
+} from '@modelcontextprotocol/sdk/types.js';
+import { jest } from '@jest/globals';
+import WebSocket from 'ws';
+import util from 'node:util';
+
+util.inspect.defaultOptions.depth = null;
+
+jest.setTimeout(20000);
+
+describe('WebSocket transport interactions', () => {
+  let stop: () => Promise<void>;
+  let mcpServer: any;
+  let serverReceived: JSONRPCMessage[];
+  let transports: Record<string, unknown>;
+  let client: any;
+  let transport: any;
+  const received: JSONRPCMessage[] = [];
+
+  beforeAll(async () => {
+    ({ mcpServer, serverReceived, transports, stop } = startServer(8088, { transport: 'websocket' }));
+    ({ client, transport } = await createClient('ws://localhost:8088/ws', { transport: 'websocket' }));
+    const origOnmessage = transport.onmessage;
+    transport.onmessage = (m: JSONRPCMessage, extra?: any) => {
+      received.push(m);
+      origOnmessage?.(m, extra);
+    };
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, () => {});
+  });
+
+  afterAll(async () => {
+    await transport.close();
+    await stop();
+  });
+
+  beforeEach(() => {
+    received.splice(0, received.length);
+    serverReceived.splice(0, serverReceived.length);
+  });
+
+  test('Tool Call with Progress over WebSocket', async () => {
+    console.log('=== Tool Call with Progress over WebSocket ===');
+    const nextId = (client as any)._requestMessageId;
+    await client.callTool({ name: 'slow_echo', arguments: { message: 'hello', delay: 200 } }, undefined, {
+      onprogress: () => { /* progress events logged */ }
+    });
+    const callReq = serverReceived.find(m => isJSONRPCRequest(m) && (m as any).id === nextId);
+    expect(callReq).toEqual({ jsonrpc: '2.0', id: nextId, method: 'tools/call', params: { name: 'slow_echo', arguments: { message: 'hello', delay: 200 }, _meta: { progressToken: nextId } } });
+    const progressNotifications = received.filter(m => isJSONRPCNotification(m) && m.method === 'notifications/progress');
+    expect(progressNotifications.length).toBe(5);
+    const callMsg = received.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(callMsg).toEqual({ jsonrpc: '2.0', id: nextId, result: { content: [{ type: 'text', text: 'hello' }] } });
+  });
+
+  test('Tool Call Cancellation over WebSocket', async () => {
+    console.log('=== Tool Call Cancellation over WebSocket ===');
+    const progressId = (client as any)._requestMessageId;
+    const ac = new AbortController();
+    const promise = client.callTool({ name: 'slow_echo', arguments: { message: 'cancel', delay: 1000 } }, undefined, {
+      signal: ac.signal,
+      onprogress: () => { /* progress events ignored in this log */ }
+    });
+    setTimeout(() => ac.abort('User requested cancellation'), 300);
+    await expect(promise).rejects.toBeTruthy();
+    await new Promise(r => setTimeout(r, 1000));
+    const cancelMsg = serverReceived.find(m => isJSONRPCNotification(m) && m.method === 'notifications/cancelled');
+    expect(cancelMsg).toEqual({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: progressId, reason: 'User requested cancellation' } });
+    expect(received.some(m => (isJSONRPCResponse(m) || isJSONRPCError(m)) && (m as any).id === progressId)).toBe(false);
+  });
+
+  test('Sampling over WebSocket', async () => {
+    console.log('=== Sampling over WebSocket ===');
+    const nextId = (mcpServer.server as any)._requestMessageId;
+    await mcpServer.server.createMessage({
+      messages: [{ role: 'user', content: { type: 'text', text: 'What is the capital of France?' } }],
+      maxTokens: 100
+    });
+    const req = received.find(m => isJSONRPCRequest(m) && (m as any).id === nextId);
+    expect(req).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      method: 'sampling/createMessage',
+      params: { messages: [{ role: 'user', content: { type: 'text', text: 'What is the capital of France?' } }], maxTokens: 100 }
+    });
+    const resp = serverReceived.find(m => isJSONRPCResponse(m) && (m as any).id === nextId);
+    expect(resp).toEqual({
+      jsonrpc: '2.0',
+      id: nextId,
+      result: {
+        role: 'assistant',
+        content: { type: 'text', text: 'The capital of France is Paris.' },
+        model: 'claude-3-sonnet-20240307',
+        stopReason: 'endTurn'
+      }
+    });
+  });
+
+  test('Resource Subscription over WebSocket', async () => {
+    console.log('=== Resource Subscription over WebSocket ===');
+    await client.subscribeResource({ uri: 'file:///project/src/main.rs' });
+    await mcpServer.server.sendResourceUpdated({ uri: 'file:///project/src/main.rs' });
+    await new Promise(r => setTimeout(r, 50));
+    const updateNotification = received.find(m => isJSONRPCNotification(m) && m.method === 'notifications/resources/updated');
+    expect(updateNotification).toEqual({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'file:///project/src/main.rs' } });
+    await client.unsubscribeResource({ uri: 'file:///project/src/main.rs' });
+  });
+
+  test('Session Removed on Close', async () => {
+    console.log('=== Session Removed on Close ===');
+    expect(Object.keys(transports)).toHaveLength(1);
+    await transport.close();
+    await new Promise(r => setTimeout(r, 100));
+    expect(Object.keys(transports)).toEqual([]);
+  });
+
+  test('Authorization over WebSocket', async () => {
+    console.log('=== Authorization over WebSocket ===');
+    const guarded = startServer(8109, { transport: 'websocket', auth: { tokens: { 'reader-token': ['tools:call'] } } });
+    // Upgrades bypass express, so the socket server checks tokens itself
+    const open = (headers?: Record<string, string>) => new Promise<WebSocket | number>(resolve => {
+      const socket = new WebSocket('ws://localhost:8109/ws', 'mcp', { headers });
+      socket.on('unexpected-response', (req, res) => {
+        resolve(res.statusCode!);
+        req.destroy();
+      });
+      socket.on('open', () => resolve(socket));
+    });
+    let socket: WebSocket | undefined;
+    try {
+      expect(await open()).toBe(401);
+      expect(await open({ Authorization: 'Bearer not-a-token' })).toBe(401);
+
+      // The SDK's WebSocket client cannot send headers, so this session speaks raw JSON-RPC
+      socket = await open({ Authorization: 'Bearer reader-token' }) as WebSocket;
+      const answers = new Map<number, (message: any) => void>();
+      socket.on('message', data => {
+        const message = JSON.parse(String(data));
+        answers.get(message.id)?.(message);
+      });
+      const request = (id: number, method: string, params: object) => new Promise<any>(resolve => {
+        answers.set(id, resolve);
+        socket!.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+      });
+      await request(1, 'initialize', { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } });
+      socket.send(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }));
+      const called = await request(2, 'tools/call', { name: 'whoami', arguments: {} });
+      expect(JSON.parse(called.result.content[0].text)).toEqual({ token: 'reader-token', clientId: 'static', scopes: ['tools:call'] });
+    } finally {
+      socket?.close();
+      await guarded.stop();
+    }
+  });
+});